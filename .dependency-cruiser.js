@@ -35,8 +35,6 @@ module.exports = {
           "\\.d\\.ts$",
           "(^|/)tsconfig\\.json$",
           "(^|/)(babel|webpack)\\.config\\.(js|cjs|mjs|ts|json)$",
-          "crashReporting\\.ts$", // Boilerplate file for future crash reporting setup
-          "utils/delay\\.ts$", // Utility function for delaying execution
         ],
       },
       to: {},
@@ -4,10 +4,17 @@ import { useFonts } from "@expo-google-fonts/space-grotesk"
 import { KeyboardProvider } from "react-native-keyboard-controller"
 import { initialWindowMetrics, SafeAreaProvider } from "react-native-safe-area-context"
 
+import { ErrorBoundary } from "@/components/ErrorBoundary/ErrorBoundary"
+import Config from "@/config"
 import { initI18n } from "@/i18n"
+import { featureFlags } from "@/services/featureFlags"
 import { ThemeProvider } from "@/theme/context"
 import { customFontsToLoad } from "@/theme/typography"
+import { initCrashReporting } from "@/utils/crashReporting"
+import { useNavigationBreadcrumbs } from "@/utils/crashReporting/useNavigationBreadcrumbs"
 import { loadDateFnsLocale } from "@/utils/formatDate"
+import { migrateStorage } from "@/utils/storage/registry"
+import { useNavigationPersistence } from "@/utils/useNavigationPersistence"
 
 SplashScreen.preventAutoHideAsync()
 
@@ -18,9 +25,17 @@ if (__DEV__) {
   require("@/devtools/ReactotronConfig")
 }
 
+initCrashReporting()
+
+// Upgrade values saved by older app versions before anything reads them. Keys
+// are registered when the modules defining them are imported above.
+migrateStorage()
+
 export default function Root() {
   const [fontsLoaded, fontError] = useFonts(customFontsToLoad)
   const [isI18nInitialized, setIsI18nInitialized] = useState(false)
+  useNavigationPersistence()
+  useNavigationBreadcrumbs()
 
   useEffect(() => {
     initI18n()
@@ -28,6 +43,11 @@ export default function Root() {
       .then(() => loadDateFnsLocale())
   }, [])
 
+  useEffect(() => {
+    // Saved flags apply right away; this picks up any changes in the background.
+    featureFlags.refresh()
+  }, [])
+
   const loaded = fontsLoaded && isI18nInitialized
 
   useEffect(() => {
@@ -48,7 +68,9 @@ export default function Root() {
     <SafeAreaProvider initialMetrics={initialWindowMetrics}>
       <ThemeProvider>
         <KeyboardProvider>
-          <Slot />
+          <ErrorBoundary catchErrors={Config.catchErrors}>
+            <Slot />
+          </ErrorBoundary>
         </KeyboardProvider>
       </ThemeProvider>
     </SafeAreaProvider>
@@ -0,0 +1,9 @@
+import { Redirect } from "expo-router"
+
+import { StorageInspectorScreen } from "@/screens/StorageInspectorScreen"
+
+export default function StorageInspector() {
+  // Debugging tool only; production builds have no way to reach it.
+  if (!__DEV__) return <Redirect href="/" />
+  return <StorageInspectorScreen />
+}
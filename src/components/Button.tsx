@@ -1,5 +1,6 @@
 import { ComponentType } from "react"
 import {
+  GestureResponderEvent,
   Pressable,
   PressableProps,
   PressableStateCallbackType,
@@ -11,6 +12,7 @@ import {
 import { useAppTheme } from "@/theme/context"
 import { $styles } from "@/theme/styles"
 import type { ThemedStyle, ThemedStyleArray } from "@/theme/types"
+import { addBreadcrumb } from "@/utils/crashReporting"
 
 import { Text, TextProps } from "./Text"
 
@@ -120,6 +122,17 @@ export function Button(props: ButtonProps) {
   const { themed } = useAppTheme()
 
   const preset: Presets = props.preset ?? "default"
+
+  /**
+   * Leaves a crash reporting breadcrumb before calling `onPress`.
+   * @param {GestureResponderEvent} event - The press event.
+   */
+  function handlePress(event: GestureResponderEvent) {
+    const label = text ?? tx ?? rest.accessibilityLabel ?? "unlabeled"
+    addBreadcrumb("ui", `Pressed button "${label}"`)
+    rest.onPress?.(event)
+  }
+
   /**
    * @param {PressableStateCallbackType} root0 - The root object containing the pressed state.
    * @param {boolean} root0.pressed - The pressed state.
@@ -153,6 +166,7 @@ export function Button(props: ButtonProps) {
       accessibilityRole="button"
       accessibilityState={{ disabled: !!disabled }}
       {...rest}
+      onPress={rest.onPress && handlePress}
       disabled={disabled}
     >
       {(state) => (
@@ -1,5 +1,7 @@
 import { Component, ErrorInfo, ReactNode } from "react"
 
+import { ErrorType, reportCrash } from "@/utils/crashReporting"
+
 import { ErrorDetails } from "./ErrorDetails"
 
 interface Props {
@@ -37,9 +39,8 @@ export class ErrorBoundary extends Component<Props, State> {
       errorInfo,
     })
 
-    // You can also log error messages to an error reporting service here
-    // This is a great place to put BugSnag, Sentry, crashlytics, etc:
-    // reportCrash(error)
+    // Send it to the crash reporters set up in `initCrashReporting`
+    reportCrash(error, ErrorType.FATAL, { componentStack: errorInfo.componentStack ?? undefined })
   }
 
   // Reset the error back to null
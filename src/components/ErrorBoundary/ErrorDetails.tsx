@@ -1,12 +1,15 @@
-import { ErrorInfo } from "react"
+import { ErrorInfo, useState } from "react"
 import { ScrollView, TextStyle, View, ViewStyle } from "react-native"
+import i18n from "i18next"
 
 import { Button } from "@/components/Button"
 import { Icon } from "@/components/Icon"
 import { Screen } from "@/components/Screen"
 import { Text } from "@/components/Text"
+import { Switch } from "@/components/Toggle/Switch"
 import { useAppTheme } from "@/theme/context"
 import type { ThemedStyle } from "@/theme/types"
+import { buildDiagnosticReport, shareDiagnostics } from "@/utils/crashReporting"
 
 export interface ErrorDetailsProps {
   error: Error
@@ -20,7 +23,21 @@ export interface ErrorDetailsProps {
  * @returns {JSX.Element} The rendered `ErrorDetails` component.
  */
 export function ErrorDetails(props: ErrorDetailsProps) {
-  const { themed } = useAppTheme()
+  const { themed, themeContext } = useAppTheme()
+  const [redact, setRedact] = useState(true)
+
+  function copyDiagnostics() {
+    const report = buildDiagnosticReport({
+      error: props.error,
+      componentStack: props.errorInfo?.componentStack,
+      locale: i18n.language,
+      theme: themeContext,
+    })
+    shareDiagnostics(report, { redact }).catch((e) => {
+      if (__DEV__) console.warn("Sharing diagnostics failed", e)
+    })
+  }
+
   return (
     <Screen
       preset="fixed"
@@ -45,6 +62,19 @@ export function ErrorDetails(props: ErrorDetailsProps) {
         />
       </ScrollView>
 
+      <Switch
+        value={redact}
+        onValueChange={setRedact}
+        labelTx="errorScreen:redactDiagnostics"
+        containerStyle={themed($redactSwitch)}
+      />
+
+      <Button
+        style={themed($diagnosticsButton)}
+        onPress={copyDiagnostics}
+        tx="errorScreen:copyDiagnostics"
+      />
+
       <Button
         preset="reversed"
         style={themed($resetButton)}
@@ -92,6 +122,16 @@ const $errorBacktrace: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
   color: colors.textDim,
 })
 
+const $redactSwitch: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  alignSelf: "stretch",
+  marginBottom: spacing.md,
+})
+
+const $diagnosticsButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.xxl,
+  marginBottom: spacing.sm,
+})
+
 const $resetButton: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
   backgroundColor: colors.error,
   paddingHorizontal: spacing.xxl,
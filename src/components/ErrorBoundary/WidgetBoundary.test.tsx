@@ -0,0 +1,75 @@
+import { fireEvent, render } from "@testing-library/react-native"
+
+import { Text } from "@/components/Text"
+import { ThemeProvider } from "@/theme/context"
+import { CrashReport, initCrashReporting } from "@/utils/crashReporting"
+
+import { WidgetBoundary } from "./WidgetBoundary"
+
+let shouldThrow = true
+
+function Flaky() {
+  if (shouldThrow) throw new Error("Widget broke")
+  return <Text text="Widget works" />
+}
+
+function renderWidget(resetKeys?: unknown[]) {
+  return (
+    <ThemeProvider>
+      <WidgetBoundary name="Flaky" resetKeys={resetKeys}>
+        <Flaky />
+      </WidgetBoundary>
+      <Text text="Sibling" />
+    </ThemeProvider>
+  )
+}
+
+describe("WidgetBoundary", () => {
+  let reports: CrashReport[]
+
+  beforeEach(() => {
+    shouldThrow = true
+    reports = []
+    initCrashReporting([{ name: "memory", report: (r) => void reports.push(r) }])
+    // React logs caught render errors, which is just noise here.
+    jest.spyOn(console, "error").mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it("shows a fallback in place of the widget and reports it as handled", () => {
+    const { getByRole, getByText, queryByText } = render(renderWidget())
+
+    expect(getByText("Sibling")).toBeDefined()
+    expect(queryByText("Widget works")).toBeNull()
+    expect(getByRole("button")).toBeDefined()
+    expect(reports).toHaveLength(1)
+    expect(reports[0]).toMatchObject({
+      type: "Handled",
+      error: { message: "Widget broke" },
+      extra: { widget: "Flaky" },
+    })
+  })
+
+  it("renders the widget again on retry", () => {
+    const { getByRole, getByText } = render(renderWidget())
+
+    shouldThrow = false
+    fireEvent.press(getByRole("button"))
+
+    expect(getByText("Widget works")).toBeDefined()
+  })
+
+  it("renders the widget again when a reset key changes", () => {
+    const { getByRole, getByText, rerender } = render(renderWidget([1]))
+
+    shouldThrow = false
+    rerender(renderWidget([1]))
+    expect(getByRole("button")).toBeDefined()
+
+    rerender(renderWidget([2]))
+    expect(getByText("Widget works")).toBeDefined()
+  })
+})
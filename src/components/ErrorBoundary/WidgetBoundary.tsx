@@ -0,0 +1,125 @@
+import { Component, ErrorInfo, ReactNode } from "react"
+import { StyleProp, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { Text } from "@/components/Text"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+import { ErrorType, reportCrash } from "@/utils/crashReporting"
+
+interface Props {
+  children: ReactNode
+  /**
+   * Identifies the widget in crash reports.
+   */
+  name: string
+  /**
+   * When any of these change, a widget showing its fallback tries rendering
+   * again, e.g. pass the data it renders so new data clears an old error.
+   */
+  resetKeys?: readonly unknown[]
+  /**
+   * Called when the widget is reset, by the retry button or `resetKeys`.
+   */
+  onReset?(): void
+  /**
+   * Style for the fallback, so it can take the place of the widget in a layout.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+interface State {
+  error: Error | null
+}
+
+/**
+ * A small error boundary for a single widget, such as a `Card` or a column, so
+ * one broken part of a screen doesn't take down the rest of it. Errors are
+ * reported as `ErrorType.HANDLED` and the widget is replaced with an inline
+ * fallback that has a retry button. For errors nothing else catches, see
+ * `ErrorBoundary`.
+ * @param {Props} props - The props for the `WidgetBoundary` component.
+ * @returns {JSX.Element} The rendered `WidgetBoundary` component.
+ */
+export class WidgetBoundary extends Component<Props, State> {
+  state: State = { error: null }
+
+  static getDerivedStateFromError(error: Error): State {
+    return { error }
+  }
+
+  componentDidCatch(error: Error, errorInfo: ErrorInfo) {
+    reportCrash(error, ErrorType.HANDLED, {
+      componentStack: errorInfo.componentStack ?? undefined,
+      extra: { widget: this.props.name },
+    })
+  }
+
+  componentDidUpdate(prevProps: Readonly<Props>) {
+    if (this.state.error && haveKeysChanged(prevProps.resetKeys, this.props.resetKeys)) {
+      this.reset()
+    }
+  }
+
+  reset = () => {
+    this.props.onReset?.()
+    this.setState({ error: null })
+  }
+
+  render() {
+    return this.state.error ? (
+      <WidgetFallback onRetry={this.reset} style={this.props.style} />
+    ) : (
+      this.props.children
+    )
+  }
+}
+
+function haveKeysChanged(prev: readonly unknown[] = [], next: readonly unknown[] = []) {
+  return prev.length !== next.length || prev.some((key, i) => !Object.is(key, next[i]))
+}
+
+interface WidgetFallbackProps {
+  onRetry(): void
+  style?: StyleProp<ViewStyle>
+}
+
+function WidgetFallback(props: WidgetFallbackProps) {
+  const { themed } = useAppTheme()
+  return (
+    <View style={[themed($fallback), props.style]}>
+      <Text size="xs" style={themed($message)} tx="widgetBoundary:message" />
+      <Button
+        style={themed($retryButton)}
+        textStyle={$retryText}
+        onPress={props.onRetry}
+        tx="widgetBoundary:retry"
+      />
+    </View>
+  )
+}
+
+const $fallback: ThemedStyle<ViewStyle> = ({ colors, spacing }) => ({
+  alignItems: "center",
+  justifyContent: "center",
+  padding: spacing.sm,
+  borderRadius: 6,
+  backgroundColor: colors.separator,
+})
+
+const $message: ThemedStyle<TextStyle> = ({ colors, spacing }) => ({
+  color: colors.error,
+  textAlign: "center",
+  marginBottom: spacing.xs,
+})
+
+const $retryButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  minHeight: 0,
+  paddingVertical: spacing.xxs,
+  paddingHorizontal: spacing.sm,
+})
+
+const $retryText: TextStyle = {
+  fontSize: 12,
+  lineHeight: 16,
+}
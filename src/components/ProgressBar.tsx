@@ -0,0 +1,94 @@
+import { FC } from "react"
+// TextInput imported directly so we can wrap it with createAnimatedComponent.
+// eslint-disable-next-line no-restricted-imports
+import { StyleProp, TextInput, TextStyle, View, ViewStyle } from "react-native"
+import Animated, {
+  useAnimatedProps,
+  useAnimatedStyle,
+  useFrameCallback,
+  useSharedValue,
+} from "react-native-reanimated"
+
+import type { ProgressChannel } from "@/services/workers/types"
+import { useAppTheme } from "@/theme/context"
+import type { ThemedStyle } from "@/theme/types"
+
+const AnimatedTextInput = Animated.createAnimatedComponent(TextInput)
+
+export interface ProgressBarProps {
+  /**
+   * The channel a worker job reports into via `reportJobProgress()`.
+   */
+  channel: ProgressChannel<any>
+  /**
+   * Whether to show the stage name and percentage under the bar.
+   */
+  showLabel?: boolean
+  /**
+   * An optional style override useful for padding & margin.
+   */
+  style?: StyleProp<ViewStyle>
+}
+
+/**
+ * A progress bar fed directly by a worker job's progress channel.
+ *
+ * The channel is polled once per frame on the UI thread and the fill width and
+ * label are written with `useAnimatedStyle` / `useAnimatedProps`, so the bar
+ * never re-renders and keeps moving while the JS thread is busy.
+ */
+export const ProgressBar: FC<ProgressBarProps> = ({ channel, showLabel = true, style }) => {
+  const { themed } = useAppTheme()
+
+  const fraction = useSharedValue(0)
+  const stage = useSharedValue<string | null>(null)
+
+  useFrameCallback(() => {
+    const current = channel.getDirty()
+    if (current.fraction !== fraction.value) fraction.value = current.fraction
+    if (current.stage !== stage.value) stage.value = current.stage
+  })
+
+  const fillStyle = useAnimatedStyle(() => ({
+    width: `${fraction.value * 100}%`,
+  }))
+
+  const labelProps = useAnimatedProps(() => {
+    const percent = `${Math.round(fraction.value * 100)}%`
+    return {
+      text: stage.value ? `${stage.value} · ${percent}` : percent,
+      defaultValue: "0%",
+    }
+  })
+
+  return (
+    <View style={style}>
+      <View style={themed($track)}>
+        <Animated.View style={[themed($fill), fillStyle]} />
+      </View>
+      {showLabel && (
+        <AnimatedTextInput animatedProps={labelProps} editable={false} style={themed($label)} />
+      )}
+    </View>
+  )
+}
+
+const $track: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  height: 8,
+  borderRadius: 4,
+  overflow: "hidden",
+  backgroundColor: colors.palette.neutral300,
+})
+
+const $fill: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  height: "100%",
+  borderRadius: 4,
+  backgroundColor: colors.palette.secondary500,
+})
+
+const $label: ThemedStyle<TextStyle> = ({ colors, spacing, typography }) => ({
+  marginTop: spacing.xxs,
+  fontFamily: typography.primary.normal,
+  fontSize: 12,
+  color: colors.textDim,
+})
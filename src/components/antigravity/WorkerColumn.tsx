@@ -12,20 +12,22 @@
  *   Worker thread                UI thread              JS thread
  *   ─────────────────────────    ──────────────────     ──────────────
  *   setInterval fires            useFrameCallback       (can be jammed)
- *   → 2M Math.sqrt calls         polls bgCount
+ *   → N Math.sqrt calls          polls bgCount
  *   → bgCount.setBlocking(n+1)   → detects change
  *                                → updates displayCount
  *                                → triggers bounce via
  *                                  withTiming on ballY
  *
  * Key primitives used:
- *   • `createWorkletRuntime`  — spawns the background thread
+ *   • `createWorkletRuntime`  — spawns the background thread (once per app)
+ *   • `scheduleOnRuntime`     — starts and stops the ticking on mount/unmount
  *   • `createSynchronizable`  — a cross-runtime observable value
  *   • `useFrameCallback`      — per-frame UI-thread hook from Reanimated
  *   • `useAnimatedProps`      — writes to a native prop each frame (0 re-renders)
+ *   • `storageBridge`         — mirrors the stored workload N to the worker
  */
 
-import { FC, useRef } from "react"
+import { FC, useEffect, useRef } from "react"
 // TextInput imported directly so we can wrap it with createAnimatedComponent.
 // eslint-disable-next-line no-restricted-imports
 import { TextInput, View, ViewStyle, TextStyle } from "react-native"
@@ -37,12 +39,20 @@ import Animated, {
   withTiming,
   Easing,
 } from "react-native-reanimated"
-import { createWorkletRuntime, createSynchronizable } from "react-native-worklets"
+import {
+  createWorkletRuntime,
+  createSynchronizable,
+  scheduleOnRuntime,
+} from "react-native-worklets"
+import type { WorkletRuntime } from "react-native-worklets"
 
 import { Text } from "@/components/Text"
+import { catchWorkerErrors } from "@/services/workers/errors"
+import { storageBridge } from "@/services/workers/storageBridge"
 import { useAppTheme } from "@/theme/context"
 import { spacing } from "@/theme/spacing"
 import type { ThemedStyle } from "@/theme/types"
+import { useStoredState } from "@/utils/storage/useStoredState"
 
 /**
  * Wrapping TextInput lets Reanimated write its `value` prop every frame
@@ -51,6 +61,50 @@ import type { ThemedStyle } from "@/theme/types"
 const AnimatedTextInput = Animated.createAnimatedComponent(TextInput)
 
 const BALL_SIZE = 50
+const WORKER_RUNTIME_NAME = "BlogWorker"
+
+/**
+ * How many `Math.sqrt` calls each tick makes. Stored, so it survives restarts,
+ * and tapping the workload label cycles through `WORKLOADS`.
+ */
+const WORKLOAD_KEY = "workerColumn.workload"
+const WORKLOADS = [200000, 2000000, 8000000]
+const DEFAULT_WORKLOAD = 2000000
+
+/**
+ * The worker runtime, shared by every mount of the column.
+ *
+ * A runtime is an OS thread that can't be torn down from JS, so it is created
+ * the first time the column mounts and reused after that. Remounting the
+ * column (the feature flag going off and on, or a `WidgetBoundary` retry)
+ * restarts the ticking on the same thread instead of spawning another one.
+ */
+let workerRuntime: WorkletRuntime | null = null
+
+function getWorkerRuntime(): WorkletRuntime {
+  if (!workerRuntime) workerRuntime = createWorkletRuntime({ name: WORKER_RUNTIME_NAME })
+  return workerRuntime
+}
+
+/**
+ * The interval is kept on the worker runtime's own global, so the worklet that
+ * stops it can find the one the previous mount started.
+ */
+type TickerGlobal = { workerColumnInterval?: ReturnType<typeof setInterval> }
+
+function startTicking(tick: () => void) {
+  "worklet"
+  const scope = globalThis as TickerGlobal
+  if (scope.workerColumnInterval !== undefined) clearInterval(scope.workerColumnInterval)
+  scope.workerColumnInterval = setInterval(tick, 1500)
+}
+
+function stopTicking() {
+  "worklet"
+  const scope = globalThis as TickerGlobal
+  if (scope.workerColumnInterval !== undefined) clearInterval(scope.workerColumnInterval)
+  scope.workerColumnInterval = undefined
+}
 
 interface Props {
   /** Maximum vertical travel in pixels — used to size the bounce animation. */
@@ -59,6 +113,16 @@ interface Props {
 
 export const WorkerColumn: FC<Props> = ({ bounceHeight }) => {
   const { themed } = useAppTheme()
+  const [workload, setWorkload] = useStoredState(WORKLOAD_KEY, DEFAULT_WORKLOAD)
+
+  /**
+   * workloadMirror — StorageMirror<number>
+   *
+   * The worker can't read storage, and a value captured when the runtime is
+   * created would never change. The bridge keeps this Synchronizable in step
+   * with `WORKLOAD_KEY`, so each tick picks up the latest setting.
+   */
+  const workloadMirror = storageBridge.mirror(WORKLOAD_KEY, DEFAULT_WORKLOAD)
 
   /**
    * bgCount — Synchronizable<number>
@@ -93,42 +157,45 @@ export const WorkerColumn: FC<Props> = ({ bounceHeight }) => {
   const ballY = useSharedValue(0)
 
   /**
-   * Worker runtime — created once via a ref guard.
+   * Worker ticking — started on mount, stopped on unmount.
    *
-   * `createWorkletRuntime` spins up a new OS thread with its own JS engine
-   * context. The `initializer` worklet runs immediately on that thread.
-   *
-   * Inside the initializer:
+   * `getWorkerRuntime` returns the shared OS thread with its own JS engine
+   * context, and `startTicking` is scheduled onto it:
    *   1. A `setInterval` fires every 1.5 s on the worker thread.
-   *   2. Each tick performs 2 million `Math.sqrt` calls (simulated CPU work).
+   *   2. Each tick performs `workloadMirror` `Math.sqrt` calls (simulated CPU work).
    *   3. `bgCount.setBlocking` atomically increments the shared counter.
    *
-   * Because `initializer` is a worklet (note the `"worklet"` directive), the
-   * Babel plugin serializes it at build time and ships it to the new runtime.
-   * The JS thread only allocates the runtime; it never runs the heavy loop.
+   * Because these are worklets (note the `"worklet"` directive), the Babel
+   * plugin serializes them at build time and ships them to the runtime. The
+   * JS thread only schedules them; it never runs the heavy loop. The cleanup
+   * clears the interval, so an unmounted column does no work on the thread.
    */
-  const runtimeRef = useRef<ReturnType<typeof createWorkletRuntime> | null>(null)
-  if (!runtimeRef.current) {
-    runtimeRef.current = createWorkletRuntime({
-      name: "BlogWorker",
-      initializer: () => {
+  useEffect(() => {
+    // Exceptions on the worker thread would otherwise vanish, so both starting
+    // and each tick report theirs to crash reporting.
+    const tick = catchWorkerErrors(
+      () => {
         "worklet"
-        setInterval(() => {
-          // Simulate expensive CPU work (image processing, crypto, etc.)
-          // that would freeze the JS thread if run there instead.
-          for (let i = 0; i < 2000000; i++) {
-            Math.sqrt(i)
-          }
-          // Atomically increment the shared counter so the UI thread can
-          // detect that a new result is ready.
-          bgCount.setBlocking((prev) => {
-            console.log("⚗️ worker tick", prev + 1)
-            return prev + 1
-          })
-        }, 1500)
+        // Simulate expensive CPU work (image processing, crypto, etc.)
+        // that would freeze the JS thread if run there instead.
+        const iterations = workloadMirror.getDirty()
+        for (let i = 0; i < iterations; i++) {
+          Math.sqrt(i)
+        }
+        // Atomically increment the shared counter so the UI thread can
+        // detect that a new result is ready.
+        bgCount.setBlocking((prev) => {
+          console.log("⚗️ worker tick", prev + 1)
+          return prev + 1
+        })
       },
-    })
-  }
+      "tick",
+      WORKER_RUNTIME_NAME,
+    )
+    const runtime = getWorkerRuntime()
+    scheduleOnRuntime(runtime, catchWorkerErrors(startTicking, "start", WORKER_RUNTIME_NAME), tick)
+    return () => scheduleOnRuntime(runtime, stopTicking)
+  }, [bgCount, workloadMirror])
 
   /**
    * useFrameCallback — UI-thread polling loop
@@ -199,6 +266,13 @@ export const WorkerColumn: FC<Props> = ({ bounceHeight }) => {
       <AnimatedTextInput animatedProps={counterProps} editable={false} style={$counter} />
 
       <Text text="Scientist" style={$label} />
+
+      {/* Saved to storage; the worker sees the change on its next tick. */}
+      <Text
+        text={`${workload / 1000000}M ops`}
+        onPress={() => setWorkload(WORKLOADS[(WORKLOADS.indexOf(workload) + 1) % WORKLOADS.length])}
+        style={$workload}
+      />
     </View>
   )
 }
@@ -219,6 +293,7 @@ const $counter: TextStyle = {
   minWidth: 60,
 }
 const $label: TextStyle = { marginTop: spacing.xs, fontSize: 10, fontWeight: "bold", color: "#999" }
+const $workload: TextStyle = { fontSize: 10, color: "#999", textDecorationLine: "underline" }
 
 // secondary500 (teal/purple) visually distinguishes the worker from the two
 // apple columns, which both use angry500 (red) as their accent.
@@ -1,7 +1,21 @@
+/**
+ * Feature flags and their types. The values in `BaseConfig.featureFlags` are
+ * used until the flag endpoint says otherwise (see `@/services/featureFlags`).
+ * Flags can be booleans, numbers or strings.
+ */
+export interface FeatureFlags {
+  /**
+   * Show the react-native-worklets column on the Antigravity screen.
+   */
+  workerColumn: boolean
+}
+
 export interface ConfigBaseProps {
   persistNavigation: "always" | "dev" | "prod" | "never"
   catchErrors: "always" | "dev" | "prod" | "never"
   exitRoutes: string[]
+  featureFlags: FeatureFlags
+  authStorageEncryptionKey: string
 }
 
 export type PersistNavigationConfig = ConfigBaseProps["persistNavigation"]
@@ -21,6 +35,22 @@ const BaseConfig: ConfigBaseProps = {
    * is pressed while in that screen. Only affects Android.
    */
   exitRoutes: ["Welcome"],
+
+  /**
+   * Local defaults for every feature flag. Keep these safe to ship: they are
+   * what users get when the flag endpoint is down or hasn't answered yet.
+   */
+  featureFlags: {
+    workerColumn: true,
+  },
+
+  /**
+   * Encrypts the storage namespace that holds auth tokens (at most 16 bytes).
+   * It ships inside the bundle, so this keeps tokens out of plain sight in a
+   * backup or a copied storage file rather than away from a determined
+   * attacker. For that, keep the key in the Keychain/Keystore instead.
+   */
+  authStorageEncryptionKey: "ignite.auth.v1",
 }
 
 export default BaseConfig
@@ -5,6 +5,11 @@
  *
  * https://reactnative.dev/docs/security#storing-sensitive-info
  */
+import type { EnvironmentName } from "./environments"
+
 export default {
-  API_URL: "https://api.rss2json.com/v1/",
+  /**
+   * The environment to use unless a dev override is set. See ./environments.ts.
+   */
+  ENVIRONMENT: "production" as EnvironmentName,
 }
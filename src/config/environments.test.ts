@@ -0,0 +1,72 @@
+import { storage } from "@/utils/storage"
+
+import {
+  ENVIRONMENT_OVERRIDE_KEY,
+  ENVIRONMENTS,
+  getEnvironmentOverride,
+  isEnvironmentName,
+  setEnvironmentOverride,
+  validateEnvironment,
+} from "./environments"
+
+beforeEach(() => {
+  storage.clearAll()
+})
+
+describe("validateEnvironment", () => {
+  it("accepts every configured environment", () => {
+    Object.values(ENVIRONMENTS).forEach((config) => {
+      expect(validateEnvironment(config)).toEqual([])
+    })
+  })
+
+  it("reports bad URLs and timeouts", () => {
+    expect(
+      validateEnvironment({
+        API_URL: "api.example.com",
+        API_TIMEOUT: 0,
+        FEATURE_FLAGS_URL: "flags.json",
+        CRASH_REPORT_URL: null,
+      }),
+    ).toEqual([
+      'API_URL must be an http(s) URL, got "api.example.com"',
+      'FEATURE_FLAGS_URL must be an http(s) URL or null, got "flags.json"',
+      "API_TIMEOUT must be a positive number, got 0",
+    ])
+    expect(
+      validateEnvironment({
+        API_URL: "https://api.example.com/v1",
+        API_TIMEOUT: 1,
+        FEATURE_FLAGS_URL: null,
+        CRASH_REPORT_URL: "https://crashes.example.test",
+      }),
+    ).toEqual([
+      'API_URL must end with "/" so relative paths resolve, got "https://api.example.com/v1"',
+    ])
+  })
+})
+
+describe("environment override", () => {
+  it("round-trips through storage", () => {
+    expect(getEnvironmentOverride()).toBeNull()
+
+    setEnvironmentOverride("local")
+    expect(getEnvironmentOverride()).toBe("local")
+
+    setEnvironmentOverride(null)
+    expect(getEnvironmentOverride()).toBeNull()
+  })
+
+  it("ignores unknown names", () => {
+    storage.set(ENVIRONMENT_OVERRIDE_KEY, "qa-42")
+    expect(getEnvironmentOverride()).toBeNull()
+  })
+
+  it("doesn't take names inherited from Object.prototype", () => {
+    expect(isEnvironmentName("constructor")).toBe(false)
+    expect(isEnvironmentName("toString")).toBe(false)
+
+    storage.set(ENVIRONMENT_OVERRIDE_KEY, "constructor")
+    expect(getEnvironmentOverride()).toBeNull()
+  })
+})
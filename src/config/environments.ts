@@ -0,0 +1,118 @@
+/**
+ * The backends the app can talk to, and the settings that differ between them.
+ *
+ * Each build picks a default environment (see config.dev.ts and config.prod.ts).
+ * Dev builds can switch to another one without rebuilding: the choice is saved
+ * in storage and applied on the next launch. Use the "Switch Environment"
+ * Reactotron command, or `setEnvironmentOverride` followed by a reload.
+ *
+ * Like the rest of the config, none of this is secret. Don't put keys here.
+ */
+import { loadString, remove, saveString } from "@/utils/storage"
+
+export type EnvironmentName = "local" | "staging" | "production"
+
+export interface EnvironmentConfig {
+  /**
+   * The base URL of the api, including the trailing slash.
+   */
+  API_URL: string
+
+  /**
+   * How long to wait for a response, in milliseconds.
+   */
+  API_TIMEOUT: number
+
+  /**
+   * Where to fetch feature flags from, as a JSON object of flag values. Null
+   * to always use the defaults in config.base.ts.
+   */
+  FEATURE_FLAGS_URL: string | null
+
+  /**
+   * Where to POST crash reports as JSON, or null to not send them anywhere.
+   */
+  CRASH_REPORT_URL: string | null
+}
+
+export const ENVIRONMENTS: Record<EnvironmentName, EnvironmentConfig> = {
+  local: {
+    API_URL: "http://localhost:3000/v1/",
+    API_TIMEOUT: 30000,
+    // Serve a flags.json next to your local backend to try flags out.
+    FEATURE_FLAGS_URL: "http://localhost:3000/flags.json",
+    CRASH_REPORT_URL: "http://localhost:3000/crashes",
+  },
+  staging: {
+    API_URL: "https://api.rss2json.com/v1/",
+    API_TIMEOUT: 10000,
+    FEATURE_FLAGS_URL: null,
+    CRASH_REPORT_URL: null,
+  },
+  production: {
+    API_URL: "https://api.rss2json.com/v1/",
+    API_TIMEOUT: 10000,
+    FEATURE_FLAGS_URL: null,
+    CRASH_REPORT_URL: null,
+  },
+}
+
+export const ENVIRONMENT_NAMES = Object.keys(ENVIRONMENTS) as EnvironmentName[]
+
+export const ENVIRONMENT_OVERRIDE_KEY = "config.environment"
+
+export function isEnvironmentName(value: unknown): value is EnvironmentName {
+  // Not `in`, which also accepts inherited names such as "constructor".
+  return typeof value === "string" && (ENVIRONMENT_NAMES as string[]).includes(value)
+}
+
+/**
+ * Checks an environment's settings for mistakes that would only show up later
+ * as confusing network errors.
+ *
+ * @returns A description of each problem found. Empty if the config is valid.
+ */
+export function validateEnvironment(config: EnvironmentConfig): string[] {
+  const problems: string[] = []
+
+  if (!isHttpUrl(config.API_URL)) {
+    problems.push(`API_URL must be an http(s) URL, got "${config.API_URL}"`)
+  } else if (!config.API_URL.endsWith("/")) {
+    problems.push(`API_URL must end with "/" so relative paths resolve, got "${config.API_URL}"`)
+  }
+  const optionalUrls = ["FEATURE_FLAGS_URL", "CRASH_REPORT_URL"] as const
+  optionalUrls.forEach((field) => {
+    const url = config[field]
+    if (url !== null && !isHttpUrl(url)) {
+      problems.push(`${field} must be an http(s) URL or null, got "${url}"`)
+    }
+  })
+  if (!Number.isFinite(config.API_TIMEOUT) || config.API_TIMEOUT <= 0) {
+    problems.push(`API_TIMEOUT must be a positive number, got ${config.API_TIMEOUT}`)
+  }
+
+  return problems
+}
+
+function isHttpUrl(url: string): boolean {
+  return /^https?:\/\/[^/]+/.test(url)
+}
+
+/**
+ * The environment saved with `setEnvironmentOverride`. Always null outside dev
+ * builds, so a stray value in storage can never repoint a release build.
+ */
+export function getEnvironmentOverride(): EnvironmentName | null {
+  if (!__DEV__) return null
+  const name = loadString(ENVIRONMENT_OVERRIDE_KEY)
+  return isEnvironmentName(name) ? name : null
+}
+
+/**
+ * Saves the environment to use from the next launch on. Pass null to go back
+ * to the build's default.
+ */
+export function setEnvironmentOverride(name: EnvironmentName | null) {
+  if (name) saveString(ENVIRONMENT_OVERRIDE_KEY, name)
+  else remove(ENVIRONMENT_OVERRIDE_KEY)
+}
@@ -1,6 +1,8 @@
 /**
  * This file imports configuration objects from either the config.dev.js file
- * or the config.prod.js file depending on whether we are in __DEV__ or not.
+ * or the config.prod.js file depending on whether we are in __DEV__ or not,
+ * and merges in the settings of the environment they pick (or the dev
+ * override, see ./environments.ts).
  *
  * Note that we do not gitignore these files. Unlike on web servers, just because
  * these are not checked into your repo doesn't mean that they are secure.
@@ -16,6 +18,7 @@
 import BaseConfig from "./config.base"
 import DevConfig from "./config.dev"
 import ProdConfig from "./config.prod"
+import { ENVIRONMENTS, getEnvironmentOverride, validateEnvironment } from "./environments"
 
 let ExtraConfig = ProdConfig
 
@@ -23,6 +26,15 @@ if (__DEV__) {
   ExtraConfig = DevConfig
 }
 
-const Config = { ...BaseConfig, ...ExtraConfig }
+const ENVIRONMENT = getEnvironmentOverride() ?? ExtraConfig.ENVIRONMENT
+const EnvironmentConfig = ENVIRONMENTS[ENVIRONMENT]
+
+// Fail on launch rather than with puzzling network errors later.
+const problems = validateEnvironment(EnvironmentConfig)
+if (problems.length) {
+  throw new Error(`Invalid config for environment "${ENVIRONMENT}":\n${problems.join("\n")}`)
+}
+
+const Config = { ...BaseConfig, ...ExtraConfig, ENVIRONMENT, ...EnvironmentConfig }
 
 export default Config
@@ -3,12 +3,14 @@
  * free desktop app for inspecting and debugging your React Native app.
  * @see https://github.com/infinitered/reactotron
  */
-import { Platform, NativeModules } from "react-native"
+import { DevSettings, Platform, NativeModules } from "react-native"
 import { router } from "expo-router"
 import { ArgType } from "reactotron-core-client"
 import { ReactotronReactNative } from "reactotron-react-native"
 import mmkvPlugin from "reactotron-react-native-mmkv"
 
+import Config from "@/config"
+import { ENVIRONMENT_NAMES, isEnvironmentName, setEnvironmentOverride } from "@/config/environments"
 import { storage } from "@/utils/storage"
 
 import { Reactotron } from "./ReactotronClient"
@@ -79,6 +81,38 @@ reactotron.onCustomCommand({
   },
 })
 
+reactotron.onCustomCommand({
+  title: "Open Storage Inspector",
+  description: "Shows every key in storage, with export and import",
+  command: "openStorageInspector",
+  handler: () => {
+    router.push("/storage-inspector")
+  },
+})
+
+reactotron.onCustomCommand<[{ name: "environment"; type: ArgType.String }]>({
+  command: "switchEnvironment",
+  handler: (args) => {
+    const { environment } = args ?? {}
+    if (!environment) {
+      Reactotron.log("Resetting to the build's default environment")
+      setEnvironmentOverride(null)
+    } else if (isEnvironmentName(environment)) {
+      Reactotron.log(`Switching from ${Config.ENVIRONMENT} to ${environment}`)
+      setEnvironmentOverride(environment)
+    } else {
+      Reactotron.log(
+        `Unknown environment "${environment}". Use one of: ${ENVIRONMENT_NAMES.join(", ")}`,
+      )
+      return
+    }
+    DevSettings.reload()
+  },
+  title: "Switch Environment",
+  description: `Reloads the app against another backend: ${ENVIRONMENT_NAMES.join(", ")}. Leave empty to reset.`,
+  args: [{ name: "environment", type: ArgType.String }],
+})
+
 /**
  * We're going to add `console.tron` to the Reactotron object.
  * Now, anywhere in our app in development, we can use Reactotron like so:
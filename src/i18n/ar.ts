@@ -17,6 +17,12 @@ const ar: Translations = {
     friendlySubtitle:
       "هذه هي الشاشة التي سيشاهدها المستخدمون في عملية الانتاج عند حدوث خطأ. سترغب في تخصيص هذه الرسالة ( الموجودة في 'ts.en/i18n/app') وربما التخطيط ايضاً ('app/screens/ErrorScreen'). إذا كنت تريد إزالة هذا بالكامل، تحقق من 'app/app.tsp' من اجل عنصر <ErrorBoundary>.",
     reset: "اعادة تعيين التطبيق",
+    copyDiagnostics: "نسخ بيانات التشخيص",
+    redactDiagnostics: "إخفاء البيانات الشخصية",
+  },
+  widgetBoundary: {
+    message: "تعذر عرض هذا الجزء.",
+    retry: "إعادة المحاولة",
   },
   emptyStateComponent: {
     generic: {
@@ -15,6 +15,12 @@ const en = {
     friendlySubtitle:
       "This is the screen that your users will see in production when an error is thrown. You'll want to customize this message (located in `app/i18n/en.ts`) and probably the layout as well (`app/screens/ErrorScreen`). If you want to remove this entirely, check `app/app.tsx` for the <ErrorBoundary> component.",
     reset: "RESET APP",
+    copyDiagnostics: "COPY DIAGNOSTICS",
+    redactDiagnostics: "Redact personal data",
+  },
+  widgetBoundary: {
+    message: "This part couldn't be shown.",
+    retry: "Try again",
   },
   emptyStateComponent: {
     generic: {
@@ -17,6 +17,12 @@ const es: Translations = {
     friendlySubtitle:
       "Esta es la pantalla que verán tus usuarios en producción cuando haya un error. Vas a querer personalizar este mensaje (que está ubicado en `app/i18n/es.ts`) y probablemente también su diseño (`app/screens/ErrorScreen`). Si quieres eliminarlo completamente, revisa `app/app.tsx` y el componente <ErrorBoundary>.",
     reset: "REINICIA LA APP",
+    copyDiagnostics: "COPIAR DIAGNÓSTICO",
+    redactDiagnostics: "Ocultar datos personales",
+  },
+  widgetBoundary: {
+    message: "No se pudo mostrar esta parte.",
+    retry: "Reintentar",
   },
   emptyStateComponent: {
     generic: {
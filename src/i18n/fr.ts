@@ -17,6 +17,12 @@ const fr: Translations = {
     friendlySubtitle:
       "C'est l'écran que vos utilisateurs verront en production lorsqu'une erreur sera lancée. Vous voudrez personnaliser ce message (situé dans `app/i18n/fr.ts`) et probablement aussi la mise en page (`app/screens/ErrorScreen`). Si vous voulez le supprimer complètement, vérifiez `app/app.tsx` pour le composant <ErrorBoundary>.",
     reset: "RÉINITIALISER L'APPLICATION",
+    copyDiagnostics: "COPIER LE DIAGNOSTIC",
+    redactDiagnostics: "Masquer les données personnelles",
+  },
+  widgetBoundary: {
+    message: "Cette partie n'a pas pu s'afficher.",
+    retry: "Réessayer",
   },
   emptyStateComponent: {
     generic: {
@@ -17,6 +17,12 @@ const hi: Translations = {
     friendlySubtitle:
       "यह वह स्क्रीन है जो आपके उपयोगकर्ता संचालन में देखेंगे जब कोई त्रुटि होगी। आप इस संदेश को बदलना चाहेंगे (जो `app/i18n/hi.ts` में स्थित है) और शायद लेआउट भी (`app/screens/ErrorScreen`)। यदि आप इसे पूरी तरह से हटाना चाहते हैं, तो `app/app.tsx` में <ErrorBoundary> कंपोनेंट की जांच करें।",
     reset: "ऐप रीसेट करें",
+    copyDiagnostics: "निदान कॉपी करें",
+    redactDiagnostics: "व्यक्तिगत डेटा छिपाएँ",
+  },
+  widgetBoundary: {
+    message: "यह हिस्सा दिखाया नहीं जा सका।",
+    retry: "फिर से कोशिश करें",
   },
   emptyStateComponent: {
     generic: {
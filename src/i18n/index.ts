@@ -4,6 +4,8 @@ import i18n from "i18next"
 import { initReactI18next } from "react-i18next"
 import "intl-pluralrules"
 
+import { addBreadcrumb } from "@/utils/crashReporting"
+
 // if English isn't your default language, move Translations to the appropriate language file.
 import ar from "./ar"
 import en, { Translations } from "./en"
@@ -45,6 +47,7 @@ if (locale?.languageTag && locale?.textDirection === "rtl") {
 
 export const initI18n = async () => {
   i18n.use(initReactI18next)
+  i18n.on("languageChanged", (language) => addBreadcrumb("locale", `Locale is ${language}`))
 
   await i18n.init({
     resources,
@@ -17,6 +17,12 @@ const ja: Translations = {
     friendlySubtitle:
       "本番では、エラーが投げられた時にこのページが表示されます。もし使うならこのメッセージに変更を加えてください(`app/i18n/jp.ts`)レイアウトはこちらで変更できます(`app/screens/ErrorScreen`)。もしこのスクリーンを取り除きたい場合は、`app/app.tsx`にある<ErrorBoundary>コンポーネントをチェックしてください",
     reset: "リセット",
+    copyDiagnostics: "診断情報をコピー",
+    redactDiagnostics: "個人情報を伏せる",
+  },
+  widgetBoundary: {
+    message: "この部分を表示できませんでした。",
+    retry: "再試行",
   },
   emptyStateComponent: {
     generic: {
@@ -27,8 +27,10 @@ import { LazyAppleColumn } from "@/components/antigravity/LazyAppleColumn"
 import { RocketAppleColumn } from "@/components/antigravity/RocketAppleColumn"
 import { WorkerColumn } from "@/components/antigravity/WorkerColumn"
 import { Button } from "@/components/Button"
+import { WidgetBoundary } from "@/components/ErrorBoundary/WidgetBoundary"
 import { Screen } from "@/components/Screen"
 import { Text } from "@/components/Text"
+import { useFeatureFlag } from "@/services/featureFlags/useFeatureFlag"
 import { useAppTheme } from "@/theme/context"
 import { spacing } from "@/theme/spacing"
 import type { ThemedStyle } from "@/theme/types"
@@ -38,6 +40,7 @@ const BALL_SIZE = 50
 
 export const AntigravityScreen: FC = () => {
   const { themed } = useAppTheme()
+  const showWorkerColumn = useFeatureFlag("workerColumn")
 
   // SCREEN_HEIGHT drives the vertical travel distance of each ball so the demo
   // scales correctly across device sizes.
@@ -126,14 +129,23 @@ export const AntigravityScreen: FC = () => {
 
       {/* ── Three columns, one per runtime ── */}
       <View style={[$ballContainer, { height: BOUNCE_HEIGHT + BALL_SIZE + 40 }]}>
+        {/* Each column has its own boundary, so a crash in one leaves the others running. */}
         {/* Column 1: JS thread — freezes when jammed */}
-        <LazyAppleColumn bridgePos={bridgePos} isJammed={isJammed} />
+        <WidgetBoundary name="LazyAppleColumn" style={$columnFallback}>
+          <LazyAppleColumn bridgePos={bridgePos} isJammed={isJammed} />
+        </WidgetBoundary>
 
         {/* Column 2: Reanimated UI thread — survives JS freeze */}
-        <RocketAppleColumn rocketPos={rocketPos} bounceHeight={BOUNCE_HEIGHT} />
-
-        {/* Column 3: react-native-worklets worker — CPU work on its own thread */}
-        <WorkerColumn bounceHeight={BOUNCE_HEIGHT} />
+        <WidgetBoundary name="RocketAppleColumn" style={$columnFallback}>
+          <RocketAppleColumn rocketPos={rocketPos} bounceHeight={BOUNCE_HEIGHT} />
+        </WidgetBoundary>
+
+        {/* Column 3: react-native-worklets worker — CPU work on its own thread. Behind a flag. */}
+        {showWorkerColumn && (
+          <WidgetBoundary name="WorkerColumn" style={$columnFallback}>
+            <WorkerColumn bounceHeight={BOUNCE_HEIGHT} />
+          </WidgetBoundary>
+        )}
       </View>
 
       {/* ── Jam button ── */}
@@ -180,6 +192,8 @@ const $ballContainer: ViewStyle = {
   paddingVertical: spacing.xl,
 }
 
+const $columnFallback: ViewStyle = { width: 100, alignSelf: "flex-start" }
+
 const $buttonContainer: ViewStyle = { paddingHorizontal: spacing.xl, marginTop: spacing.md }
 const $button: ViewStyle = { borderRadius: 12, height: 60 }
 const $buttonText: TextStyle = { color: "#FFFFFF", fontWeight: "bold", fontSize: 17 }
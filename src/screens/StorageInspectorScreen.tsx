@@ -0,0 +1,257 @@
+/**
+ * StorageInspectorScreen — dev-only view of everything in `storage`.
+ *
+ * Lists every key, and lets you view a value (pretty-printed if it is JSON),
+ * edit it and delete it. The whole store can be exported to the share sheet,
+ * where it can be copied or saved to a file.
+ *
+ * Importing is paste-only: no file picker is installed, so open the exported
+ * file elsewhere and paste its contents in. After a confirmation step, the
+ * snapshot replaces the store.
+ *
+ * Open it from Reactotron's "Open Storage Inspector" command, or navigate to
+ * `/storage-inspector`.
+ */
+import { FC, useState, useSyncExternalStore } from "react"
+import { Share, TextStyle, View, ViewStyle } from "react-native"
+
+import { Button } from "@/components/Button"
+import { ListItem } from "@/components/ListItem"
+import { Screen } from "@/components/Screen"
+import { Text } from "@/components/Text"
+import { TextField } from "@/components/TextField"
+import { useAppTheme } from "@/theme/context"
+import { $styles } from "@/theme/styles"
+import type { ThemedStyle } from "@/theme/types"
+import { loadString, remove, saveString, storage } from "@/utils/storage"
+import {
+  exportStorage,
+  importStorage,
+  parseStorageSnapshot,
+  prettyPrintValue,
+} from "@/utils/storage/snapshot"
+import type { StorageSnapshot } from "@/utils/storage/snapshot"
+
+function subscribeToStorage(listener: () => void) {
+  const subscription = storage.addOnValueChangedListener(listener)
+  return () => subscription.remove()
+}
+
+// Joined into one string so the snapshot only changes when the keys do.
+function getKeysSnapshot() {
+  return storage.getAllKeys().sort().join("\n")
+}
+
+export const StorageInspectorScreen: FC = function StorageInspectorScreen() {
+  const { themed } = useAppTheme()
+  const keysSnapshot = useSyncExternalStore(subscribeToStorage, getKeysSnapshot)
+  const keys = keysSnapshot ? keysSnapshot.split("\n") : []
+
+  const [selectedKey, setSelectedKey] = useState<string | null>(null)
+  const [draft, setDraft] = useState("")
+  const [importDraft, setImportDraft] = useState<string | null>(null)
+  // A parsed snapshot waiting for the user to confirm it should replace storage.
+  const [pendingImport, setPendingImport] = useState<StorageSnapshot | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  function select(key: string) {
+    setSelectedKey(key)
+    setDraft(prettyPrintValue(loadString(key) ?? ""))
+    setMessage(null)
+  }
+
+  function saveDraft() {
+    if (!selectedKey) return
+    const original = loadString(selectedKey) ?? ""
+    const wasJson = isJson(original)
+    if (wasJson && !isJson(draft)) {
+      setMessage(`"${selectedKey}" holds JSON, and the edited value isn't valid JSON.`)
+      return
+    }
+    // Stored compactly, as `save` would have written it.
+    saveString(selectedKey, wasJson ? JSON.stringify(JSON.parse(draft)) : draft)
+    setMessage(`Saved "${selectedKey}".`)
+  }
+
+  function deleteSelected() {
+    if (!selectedKey) return
+    remove(selectedKey)
+    setMessage(`Deleted "${selectedKey}".`)
+    setSelectedKey(null)
+  }
+
+  function exportAll() {
+    const snapshot = exportStorage()
+    Share.share({
+      title: `storage-${new Date(snapshot.exportedAt).toISOString()}.json`,
+      message: JSON.stringify(snapshot, null, 2),
+    }).catch((e) => setMessage(`Export failed: ${(e as Error).message}`))
+  }
+
+  function toggleImport() {
+    setImportDraft(importDraft === null ? "" : null)
+    setPendingImport(null)
+  }
+
+  function checkImport() {
+    const result = parseStorageSnapshot(importDraft ?? "")
+    if (!result.ok) {
+      setMessage(`Not a storage snapshot: ${result.errors.map((e) => e.path + " " + e.message)}`)
+      return
+    }
+    setPendingImport(result.snapshot)
+    setMessage(null)
+  }
+
+  function confirmImport() {
+    if (!pendingImport) return
+    importStorage(pendingImport)
+    setImportDraft(null)
+    setPendingImport(null)
+    setSelectedKey(null)
+    setMessage(
+      `Imported ${Object.keys(pendingImport.entries).length} keys. Reload the app to use them.`,
+    )
+  }
+
+  return (
+    <Screen preset="scroll" safeAreaEdges={["top", "bottom"]}>
+      <View style={themed($container)}>
+        <Text preset="heading" text="Storage" />
+        <Text size="xs" style={themed($dim)} text={`${keys.length} keys`} />
+
+        <View style={$styles.row}>
+          <Button text="Export" style={themed($actionButton)} onPress={exportAll} />
+          <Button
+            text={importDraft === null ? "Import" : "Cancel import"}
+            style={themed($actionButton)}
+            onPress={toggleImport}
+          />
+        </View>
+
+        {importDraft !== null && (
+          <View>
+            <TextField
+              multiline
+              value={importDraft}
+              onChangeText={(text) => {
+                setImportDraft(text)
+                setPendingImport(null)
+              }}
+              label="Snapshot"
+              helper="Paste the contents of an exported snapshot file."
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+            {pendingImport ? (
+              <View style={themed($editor)}>
+                <Text
+                  size="xs"
+                  style={themed($warning)}
+                  text={
+                    `This deletes all ${keys.length} keys in storage and writes the ` +
+                    `${Object.keys(pendingImport.entries).length} in the snapshot.`
+                  }
+                />
+                <View style={$styles.row}>
+                  <Button
+                    text="Keep storage"
+                    style={themed($actionButton)}
+                    onPress={() => setPendingImport(null)}
+                  />
+                  <Button
+                    preset="reversed"
+                    text="Replace storage"
+                    style={themed($actionButton)}
+                    onPress={confirmImport}
+                  />
+                </View>
+              </View>
+            ) : (
+              <Button preset="reversed" text="Import snapshot" onPress={checkImport} />
+            )}
+          </View>
+        )}
+
+        {message && <Text size="xs" style={themed($message)} text={message} />}
+
+        {keys.map((key) => (
+          <View key={key}>
+            <ListItem
+              text={key}
+              bottomSeparator
+              rightIcon={selectedKey === key ? "caretLeft" : "caretRight"}
+              onPress={() => (selectedKey === key ? setSelectedKey(null) : select(key))}
+            />
+            {selectedKey === key && (
+              <View style={themed($editor)}>
+                <TextField
+                  multiline
+                  value={draft}
+                  onChangeText={setDraft}
+                  autoCapitalize="none"
+                  autoCorrect={false}
+                  inputWrapperStyle={$valueInput}
+                />
+                <View style={$styles.row}>
+                  <Button text="Save" style={themed($actionButton)} onPress={saveDraft} />
+                  <Button
+                    text="Delete"
+                    style={themed([$actionButton, $deleteButton])}
+                    onPress={deleteSelected}
+                  />
+                </View>
+              </View>
+            )}
+          </View>
+        ))}
+      </View>
+    </Screen>
+  )
+}
+
+function isJson(text: string) {
+  try {
+    JSON.parse(text)
+    return true
+  } catch {
+    return false
+  }
+}
+
+const $container: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingHorizontal: spacing.lg,
+  paddingVertical: spacing.md,
+  gap: spacing.sm,
+})
+
+const $dim: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.textDim,
+})
+
+const $message: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.tint,
+})
+
+const $warning: ThemedStyle<TextStyle> = ({ colors }) => ({
+  color: colors.error,
+})
+
+const $actionButton: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  flex: 1,
+  marginEnd: spacing.xs,
+})
+
+const $deleteButton: ThemedStyle<ViewStyle> = ({ colors }) => ({
+  borderColor: colors.error,
+})
+
+const $editor: ThemedStyle<ViewStyle> = ({ spacing }) => ({
+  paddingVertical: spacing.sm,
+  gap: spacing.sm,
+})
+
+const $valueInput: ViewStyle = {
+  minHeight: 120,
+  alignItems: "flex-start",
+}
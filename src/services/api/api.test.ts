@@ -0,0 +1,215 @@
+import { workerPool } from "@/services/workers"
+import { JobCancelledError } from "@/services/workers/cancellation"
+import * as d from "@/utils/decoders"
+import { storage } from "@/utils/storage"
+
+import { createMockApi, MockHandler } from "../../../test/mockAdapter"
+
+const FEED = { status: "ok", items: [{ title: "Episode 1" }] }
+
+const feedDecoder = d.object({ status: d.string, items: d.array(d.unknown) })
+
+describe("Api.getJson", () => {
+  it("returns parsed data", async () => {
+    const api = createMockApi(() => ({ status: 200, data: JSON.stringify(FEED) }))
+    expect(await api.getJson("feed")).toEqual({ kind: "ok", data: FEED })
+  })
+
+  it("parses on a worker runtime when asked to", async () => {
+    const handler = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>(() => ({
+      status: 200,
+      data: JSON.stringify(FEED),
+    }))
+    const api = createMockApi(handler)
+
+    expect(await api.getJson("feed", {}, { offThread: true, decode: feedDecoder })).toEqual({
+      kind: "ok",
+      data: FEED,
+    })
+    expect(handler.mock.calls[0][0].responseType).toBe("text")
+  })
+
+  it("honors the parseJsonOffThread config default", async () => {
+    const handler = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>(() => ({
+      status: 200,
+      data: "[]",
+    }))
+    const api = createMockApi(handler, { parseJsonOffThread: true })
+
+    expect(await api.getJson("feed")).toEqual({ kind: "ok", data: [] })
+    expect(handler.mock.calls[0][0].responseType).toBe("text")
+  })
+
+  it("returns bad-data for malformed or invalid payloads", async () => {
+    const broken = createMockApi(() => ({ status: 200, data: "{ not json" }))
+    expect(await broken.getJson("feed", {}, { offThread: true })).toEqual({
+      kind: "bad-data",
+      errors: [{ path: "$", message: expect.any(String) }],
+    })
+
+    const wrongShape = createMockApi(() => ({
+      status: 200,
+      data: JSON.stringify({ status: "ok" }),
+    }))
+    const problem = {
+      kind: "bad-data",
+      errors: [{ path: "$.items", message: "Expected array, got undefined" }],
+    }
+    expect(await wrongShape.getJson("feed", {}, { offThread: true, decode: feedDecoder })).toEqual(
+      problem,
+    )
+    expect(await wrongShape.getJson("feed", {}, { decode: feedDecoder })).toEqual(problem)
+  })
+
+  it("returns a problem instead of rejecting when decoding throws or is cancelled", async () => {
+    const api = createMockApi(() => ({ status: 200, data: JSON.stringify(FEED) }))
+    const throwingDecoder: d.Decoder<unknown> = () => {
+      "worklet"
+      throw new Error("decoder bug")
+    }
+
+    const inline = await api.getJson("feed", {}, { decode: throwingDecoder, dedupe: false })
+    expect(inline).toEqual({ kind: "bad-data", errors: [{ path: "$", message: "decoder bug" }] })
+
+    // The worker's error is crash-reported, which prints it in dev.
+    const log = jest.spyOn(console, "log").mockImplementation(() => {})
+    jest.spyOn(console, "error").mockImplementation(() => {})
+    const offThread = await api.getJson("feed", {}, { offThread: true, decode: throwingDecoder })
+    expect(offThread).toMatchObject({ kind: "bad-data", errors: [{ path: "$" }] })
+    expect(log).toHaveBeenCalledWith("decoder bug Worker", expect.anything())
+
+    jest.spyOn(workerPool, "submit").mockRejectedValueOnce(new JobCancelledError())
+    expect(await api.getJson("feed", {}, { offThread: true })).toEqual({
+      kind: "unknown",
+      temporary: true,
+    })
+    jest.restoreAllMocks()
+  })
+
+  it("maps failed responses to general problems", async () => {
+    const api = createMockApi(() => ({ status: 404 }))
+    expect(await api.getJson("feed", {}, { offThread: true })).toEqual({ kind: "not-found" })
+
+    const offline = createMockApi(() => "network-error")
+    expect(await offline.getJson("feed")).toEqual({ kind: "cannot-connect", temporary: true })
+  })
+})
+
+describe("Api.getJson coalescing", () => {
+  function countingApi() {
+    const handler = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>(() => ({
+      status: 200,
+      data: JSON.stringify(FEED),
+    }))
+    return { api: createMockApi(handler), handler }
+  }
+
+  it("shares one request and one result between identical calls in flight", async () => {
+    const { api, handler } = countingApi()
+
+    const [a, b] = await Promise.all([
+      api.getJson("feed", { page: 1, sort: "new" }, { offThread: true, decode: feedDecoder }),
+      api.getJson("feed", { sort: "new", page: 1 }, { offThread: true, decode: feedDecoder }),
+    ])
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    expect(a).toBe(b)
+  })
+
+  it("sends separate requests for different params or decoders", async () => {
+    const { api, handler } = countingApi()
+
+    await Promise.all([
+      api.getJson("feed", { page: 1 }),
+      api.getJson("feed", { page: 2 }),
+      api.getJson("feed", { page: 1 }, { decode: feedDecoder }),
+    ])
+
+    expect(handler).toHaveBeenCalledTimes(3)
+  })
+
+  it("sends a new request once the previous one has settled", async () => {
+    const { api, handler } = countingApi()
+
+    await api.getJson("feed")
+    await api.getJson("feed")
+
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it("can opt out per call", async () => {
+    const { api, handler } = countingApi()
+
+    await Promise.all([api.getJson("feed"), api.getJson("feed", undefined, { dedupe: false })])
+
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("Api.getEpisodes", () => {
+  // getEpisodes caches the feed, so start every test cold.
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  const FEED_URL = "https://feeds.example.test/podcast"
+  const EPISODE = {
+    title: "Episode 1",
+    pubDate: "2024-01-01 00:00:00",
+    link: "https://example.test/1",
+    guid: "episode-1",
+    author: "Host",
+    thumbnail: "",
+    description: "",
+    content: "",
+    enclosure: {
+      link: "https://example.test/1.mp3",
+      type: "audio/mpeg",
+      length: 1,
+      duration: 60,
+      rating: { scheme: "urn:itunes", value: "no" },
+    },
+    categories: [],
+  }
+  const FEED_RESPONSE = {
+    status: "ok",
+    feed: {
+      url: FEED_URL,
+      title: "Podcast",
+      link: "",
+      author: "",
+      description: "",
+      image: "",
+    },
+    items: [EPISODE],
+  }
+
+  it("requests the feed through rss2json", async () => {
+    const handler = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>(() => ({
+      status: 200,
+      data: JSON.stringify(FEED_RESPONSE),
+    }))
+    const api = createMockApi(handler)
+
+    expect(await api.getEpisodes(FEED_URL)).toEqual({ kind: "ok", episodes: [EPISODE] })
+    expect(handler.mock.calls[0][0].url).toBe("api.json")
+    expect(handler.mock.calls[0][0].params).toEqual({ rss_url: FEED_URL })
+  })
+
+  it("returns bad-data with the offending fields when the payload doesn't match", async () => {
+    jest.spyOn(console, "error").mockImplementationOnce(() => {})
+    const api = createMockApi(() => ({
+      status: 200,
+      data: JSON.stringify({ ...FEED_RESPONSE, items: [EPISODE, { ...EPISODE, title: 1 }] }),
+    }))
+    expect(await api.getEpisodes(FEED_URL)).toEqual({
+      kind: "bad-data",
+      errors: [{ path: "$.items[1].title", message: "Expected string, got number" }],
+    })
+  })
+
+  it("maps server failures through getGeneralApiProblem", async () => {
+    const api = createMockApi(() => ({ status: 500 }))
+    expect(await api.getEpisodes(FEED_URL)).toEqual({ kind: "server" })
+  })
+})
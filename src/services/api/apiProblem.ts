@@ -1,5 +1,7 @@
 import { ApiResponse } from "apisauce"
 
+import type { DecodeError } from "@/utils/decoders"
+
 export type GeneralApiProblem =
   /**
    * Times up.
@@ -34,9 +36,9 @@ export type GeneralApiProblem =
    */
   | { kind: "unknown"; temporary: true }
   /**
-   * The data we received is not in the expected format.
+   * The data we received is not in the expected format. `errors` says where.
    */
-  | { kind: "bad-data" }
+  | { kind: "bad-data"; errors: DecodeError[] }
 
 /**
  * Attempts to get a common cause of problems from an api response.
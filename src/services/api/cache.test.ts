@@ -0,0 +1,207 @@
+import { act, renderHook, waitFor } from "@testing-library/react-native"
+
+import * as d from "@/utils/decoders"
+import { storage } from "@/utils/storage"
+
+import { getCacheKey, ResponseCache } from "./cache"
+import { useQuery } from "./useQuery"
+import { createMockApi, MockHandler } from "../../../test/mockAdapter"
+
+const FEED = { items: [{ title: "Episode 1" }] }
+const UPDATED_FEED = { items: [{ title: "Episode 2" }] }
+
+function createApi(handler: MockHandler) {
+  const mock = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>(handler)
+  return { api: createMockApi(mock), mock }
+}
+
+beforeEach(() => {
+  storage.clearAll()
+})
+
+describe("getCacheKey", () => {
+  it("ignores param order and undefined params", () => {
+    expect(getCacheKey("feed", { b: 2, a: "x y", c: undefined })).toBe("feed?a=x%20y&b=2")
+    expect(getCacheKey("feed", { a: "x y", b: 2 })).toBe("feed?a=x%20y&b=2")
+    expect(getCacheKey("feed")).toBe("feed")
+  })
+})
+
+describe("ResponseCache", () => {
+  it("only clears its own prefix", () => {
+    const cache = new ResponseCache("test.cache:")
+    cache.set("feed", FEED)
+    storage.set("unrelated", "keep me")
+
+    cache.clear()
+
+    expect(cache.get("feed")).toBeNull()
+    expect(storage.getString("unrelated")).toBe("keep me")
+  })
+
+  it("keeps at most maxEntries, removing the oldest", () => {
+    const now = jest.spyOn(Date, "now")
+    const cache = new ResponseCache("test.cache:", "", { maxEntries: 2 })
+
+    now.mockReturnValue(1000)
+    cache.set("a", 1)
+    now.mockReturnValue(2000)
+    cache.set("b", 2)
+    now.mockReturnValue(3000)
+    cache.set("c", 3)
+
+    expect([cache.get("a"), cache.get("b")?.data, cache.get("c")?.data]).toEqual([null, 2, 3])
+    now.mockRestore()
+  })
+
+  it("prunes from its index without reading the payloads", () => {
+    const now = jest.spyOn(Date, "now")
+    const cache = new ResponseCache("test.cache:", "", { maxEntries: 2 })
+    now.mockReturnValue(1000)
+    cache.set("a", FEED)
+    now.mockReturnValue(2000)
+    cache.set("b", FEED)
+    storage.set("test.cache:untracked", "{}")
+    const getString = jest.spyOn(storage, "getString")
+
+    now.mockReturnValue(3000)
+    cache.set("c", FEED)
+
+    expect(getString.mock.calls.map(([key]) => key)).toEqual(["test.cache:#index"])
+    expect(storage.getAllKeys().sort()).toEqual([
+      "test.cache:#index",
+      "test.cache:b",
+      "test.cache:c",
+    ])
+    getString.mockRestore()
+    now.mockRestore()
+  })
+
+  it("removes entries past maxAge, including other scopes'", () => {
+    const now = jest.spyOn(Date, "now")
+    const staging = new ResponseCache("test.cache:", "https://staging.test/", { maxAge: 1000 })
+    const production = new ResponseCache("test.cache:", "https://prod.test/", { maxAge: 1000 })
+
+    now.mockReturnValue(0)
+    staging.set("feed", FEED)
+    staging.set("old", FEED)
+    now.mockReturnValue(1500)
+    expect(staging.get("feed")).toBeNull()
+    expect(storage.getString("test.cache:https://staging.test/feed")).toBeUndefined()
+
+    production.set("feed", FEED)
+    expect(storage.getString("test.cache:https://staging.test/old")).toBeUndefined()
+    expect(production.get("feed")?.data).toEqual(FEED)
+    now.mockRestore()
+  })
+})
+
+describe("Api.getJson with a cache", () => {
+  it("serves fresh entries without a request", async () => {
+    const { api, mock } = createApi(() => ({ status: 200, data: JSON.stringify(FEED) }))
+
+    await api.getJson("feed", { page: 1 }, { cache: { ttl: 60000 } })
+    const result = await api.getJson("feed", { page: 1 }, { cache: { ttl: 60000 } })
+
+    expect(result).toEqual({ kind: "ok", data: FEED })
+    expect(mock).toHaveBeenCalledTimes(1)
+  })
+
+  it("revalidates stale entries with If-None-Match and keeps them on 304", async () => {
+    const { api, mock } = createApi((config) =>
+      config.headers["If-None-Match"] === '"v1"'
+        ? { status: 304 }
+        : { status: 200, data: JSON.stringify(FEED), headers: { etag: '"v1"' } },
+    )
+
+    await api.getJson("feed", {}, { cache: { ttl: 0 } })
+    const result = await api.getJson("feed", {}, { offThread: true, cache: { ttl: 0 } })
+
+    expect(result).toEqual({ kind: "ok", data: FEED })
+    expect(mock).toHaveBeenCalledTimes(2)
+    expect(mock.mock.calls[1][0].headers["If-None-Match"]).toBe('"v1"')
+  })
+
+  it("replaces stale entries that changed", async () => {
+    let body = FEED
+    const { api } = createApi(() => ({ status: 200, data: JSON.stringify(body) }))
+
+    await api.getJson("feed", {}, { cache: { ttl: 0 } })
+    body = UPDATED_FEED
+
+    expect(await api.getJson("feed", {}, { cache: { ttl: 0 } })).toEqual({
+      kind: "ok",
+      data: UPDATED_FEED,
+    })
+    expect(api.cache.get("feed")?.data).toEqual(UPDATED_FEED)
+  })
+
+  it("keeps each base URL's entries apart", async () => {
+    const handler = (config: Parameters<MockHandler>[0]) => ({
+      status: 200,
+      data: JSON.stringify(config.baseURL?.includes("staging") ? UPDATED_FEED : FEED),
+    })
+    const production = createMockApi(handler)
+    const staging = createMockApi(handler, { url: "https://staging.example.test/" })
+
+    await production.getJson("feed", {}, { cache: { ttl: 60000 } })
+    const result = await staging.getJson("feed", {}, { cache: { ttl: 60000 } })
+
+    expect(result).toEqual({ kind: "ok", data: UPDATED_FEED })
+    expect(production.cache.get("feed")?.data).toEqual(FEED)
+  })
+
+  it("doesn't cache payloads that fail validation", async () => {
+    const { api } = createApi(() => ({ status: 200, data: JSON.stringify({ wrong: true }) }))
+    const decode = d.object({ items: d.array(d.unknown) })
+
+    await api.getJson("feed", {}, { decode, cache: { ttl: 60000 } })
+
+    expect(api.cache.get("feed")).toBeNull()
+  })
+})
+
+describe("useQuery", () => {
+  it("returns cached data on the first render and refreshes it in the background", async () => {
+    const { api, mock } = createApi(() => ({ status: 200, data: JSON.stringify(UPDATED_FEED) }))
+    api.cache.set(getCacheKey("feed", { page: 1 }), FEED)
+
+    const { result } = renderHook(() => useQuery<typeof FEED>("feed", { page: 1 }, { api, ttl: 0 }))
+
+    expect(result.current.data).toEqual(FEED)
+    expect(result.current.isRefreshing).toBe(true)
+    expect(result.current.isLoading).toBe(false)
+
+    await waitFor(() => expect(result.current.data).toEqual(UPDATED_FEED))
+    expect(result.current.isRefreshing).toBe(false)
+    expect(mock).toHaveBeenCalledTimes(1)
+  })
+
+  it("skips the request while the cache is fresh, until refetched", async () => {
+    const { api, mock } = createApi(() => ({ status: 200, data: JSON.stringify(UPDATED_FEED) }))
+    api.cache.set("feed", FEED)
+
+    const { result } = renderHook(() => useQuery<typeof FEED>("feed", undefined, { api }))
+    await waitFor(() => expect(result.current.isRefreshing).toBe(false))
+
+    expect(result.current.data).toEqual(FEED)
+    expect(mock).not.toHaveBeenCalled()
+
+    await act(() => result.current.refetch())
+
+    expect(result.current.data).toEqual(UPDATED_FEED)
+    expect(mock).toHaveBeenCalledTimes(1)
+  })
+
+  it("keeps showing cached data when the refresh fails", async () => {
+    const { api } = createApi(() => "network-error")
+    api.cache.set("feed", FEED)
+
+    const { result } = renderHook(() => useQuery<typeof FEED>("feed", undefined, { api, ttl: 0 }))
+
+    await waitFor(() =>
+      expect(result.current.problem).toEqual({ kind: "cannot-connect", temporary: true }),
+    )
+    expect(result.current.data).toEqual(FEED)
+  })
+})
@@ -0,0 +1,165 @@
+/**
+ * A persistent cache for GET responses, used by `Api.getJson` when a request
+ * passes a `cache` option.
+ *
+ * Within their TTL entries are served without touching the network, and past
+ * it they are still handed out immediately (stale-while-revalidate) while a
+ * conditional request with `If-None-Match` checks whether they changed. Only
+ * entries older than `maxAge`, or beyond the newest `maxEntries`, are removed.
+ * When each entry was stored is also kept in a small index, so pruning never
+ * has to read the payloads.
+ *
+ * Entries are stored under the API's base URL, so switching to another
+ * environment doesn't serve payloads from the previous one.
+ */
+import { load, remove, save, storage } from "@/utils/storage"
+
+export interface CacheEntry<T = unknown> {
+  data: T
+  etag?: string
+  storedAt: number
+}
+
+export interface CacheLimits {
+  /**
+   * The most entries kept. Storing more removes the oldest.
+   */
+  maxEntries: number
+
+  /**
+   * Milliseconds after which an entry is removed rather than served stale.
+   */
+  maxAge: number
+}
+
+export const DEFAULT_CACHE_PREFIX = "api.cache:"
+
+/**
+ * Appended to the prefix for the key of the index of entries.
+ */
+const INDEX_KEY = "#index"
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 200,
+  maxAge: 7 * 24 * 60 * 60 * 1000,
+}
+
+/**
+ * Builds a stable cache key from a URL and its query params. Param order
+ * doesn't matter.
+ */
+export function getCacheKey(url: string, params?: Record<string, unknown>): string {
+  const query = Object.keys(params ?? {})
+    .filter((key) => params?.[key] !== undefined)
+    .sort()
+    .map((key) => `${encodeURIComponent(key)}=${encodeURIComponent(String(params?.[key]))}`)
+    .join("&")
+  return query ? `${url}?${query}` : url
+}
+
+/**
+ * Stores response payloads in MMKV under a common key prefix.
+ */
+export class ResponseCache {
+  prefix: string
+  scope: string
+  limits: CacheLimits
+
+  /**
+   * @param prefix Storage key prefix shared by every entry.
+   * @param scope Goes in front of each key, e.g. the API's base URL.
+   * @param limits Overrides for `DEFAULT_CACHE_LIMITS`.
+   */
+  constructor(prefix = DEFAULT_CACHE_PREFIX, scope = "", limits: Partial<CacheLimits> = {}) {
+    this.prefix = prefix
+    this.scope = scope
+    this.limits = { ...DEFAULT_CACHE_LIMITS, ...limits }
+  }
+
+  /**
+   * Reads an entry, whether fresh or stale. Entries past `maxAge` are removed instead.
+   */
+  get<T>(key: string): CacheEntry<T> | null {
+    const entry = load<CacheEntry<T>>(this.storageKey(key))
+    if (!entry || typeof entry !== "object" || !("storedAt" in entry)) return null
+    if (Date.now() - entry.storedAt < this.limits.maxAge) return entry
+    this.remove(key)
+    return null
+  }
+
+  /**
+   * Whether an entry is younger than `ttl` milliseconds.
+   */
+  isFresh(entry: CacheEntry, ttl: number): boolean {
+    return Date.now() - entry.storedAt < ttl
+  }
+
+  set<T>(key: string, data: T, etag?: string) {
+    const storedAt = Date.now()
+    save(this.storageKey(key), { data, etag, storedAt } satisfies CacheEntry<T>)
+    this.prune({ ...this.loadIndex(), [this.storageKey(key)]: storedAt })
+  }
+
+  /**
+   * Marks an entry as fresh again, e.g. after the server answered 304 Not Modified.
+   */
+  touch(key: string) {
+    const entry = this.get(key)
+    if (!entry) return
+    const storedAt = Date.now()
+    save(this.storageKey(key), { ...entry, storedAt })
+    save(this.indexKey, { ...this.loadIndex(), [this.storageKey(key)]: storedAt })
+  }
+
+  remove(key: string) {
+    const index = this.loadIndex()
+    delete index[this.storageKey(key)]
+    remove(this.storageKey(key))
+    save(this.indexKey, index)
+  }
+
+  /**
+   * Removes entries past `maxAge`, then the oldest until at most `maxEntries`
+   * are left. Covers every scope, so entries from an old base URL go too, and
+   * only reads the index, never the payloads. Entries missing from the index
+   * are removed.
+   *
+   * @param index When each entry was stored. Defaults to the saved index.
+   */
+  prune(index = this.loadIndex()) {
+    const cutoff = Date.now() - this.limits.maxAge
+    const kept = Object.entries(index)
+      .filter(([, storedAt]) => storedAt > cutoff)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, this.limits.maxEntries)
+    const keptKeys = new Set(kept.map(([key]) => key))
+
+    this.storageKeys()
+      .filter((key) => key !== this.indexKey && !keptKeys.has(key))
+      .forEach((key) => remove(key))
+    save(this.indexKey, Object.fromEntries(kept))
+  }
+
+  /**
+   * Removes every entry with this cache's prefix and nothing else.
+   */
+  clear() {
+    this.storageKeys().forEach((key) => remove(key))
+  }
+
+  private get indexKey() {
+    return this.prefix + INDEX_KEY
+  }
+
+  private loadIndex(): Record<string, number> {
+    return load<Record<string, number>>(this.indexKey) ?? {}
+  }
+
+  private storageKey(key: string) {
+    return this.prefix + this.scope + key
+  }
+
+  private storageKeys() {
+    return storage.getAllKeys().filter((key) => key.startsWith(this.prefix))
+  }
+}
@@ -5,20 +5,51 @@
  * See the [Backend API Integration](https://docs.infinite.red/ignite-cli/boilerplate/app/services/#backend-api-integration)
  * documentation for more details.
  */
-import { ApisauceInstance, create } from "apisauce"
+import { ApiResponse, ApisauceInstance, create } from "apisauce"
 
 import Config from "@/config"
+import { workerPool } from "@/services/workers"
+import { JobCancelledError } from "@/services/workers/cancellation"
+import type { Decoder, DecodeResult } from "@/utils/decoders"
 
-import type { ApiConfig } from "./types"
+import { GeneralApiProblem, getGeneralApiProblem } from "./apiProblem"
+import { getCacheKey, ResponseCache } from "./cache"
+import { parseJson } from "./jsonParsing"
+import {
+  ApiMiddleware,
+  ApiRequestConfig,
+  breadcrumbs,
+  composeMiddleware,
+  withHeaders,
+} from "./middleware"
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from "./retry"
+import { apiFeedResponseDecoder } from "./types"
+import type {
+  ApiConfig,
+  ApiFeedResponse,
+  ApiResult,
+  EpisodeItem,
+  JsonRequestOptions,
+} from "./types"
 
 /**
  * Configuring the apisauce instance.
  */
 export const DEFAULT_API_CONFIG: ApiConfig = {
   url: Config.API_URL,
-  timeout: 10000,
+  timeout: Config.API_TIMEOUT,
+  middleware: [breadcrumbs()],
 }
 
+/**
+ * How the episodes feed is fetched, shared by `Api.getEpisodes` and `useEpisodes`.
+ */
+export const EPISODES_REQUEST = {
+  offThread: true,
+  decode: apiFeedResponseDecoder,
+  cache: { ttl: 5 * 60 * 1000 },
+} satisfies JsonRequestOptions<ApiFeedResponse>
+
 /**
  * Manages all requests to the API. You can use this class to build out
  * various requests that you need to call from your backend API.
@@ -26,12 +57,21 @@ export const DEFAULT_API_CONFIG: ApiConfig = {
 export class Api {
   apisauce: ApisauceInstance
   config: ApiConfig
+  middleware: ApiMiddleware[]
+  cache: ResponseCache
+
+  private inFlight = new Map<
+    string,
+    { decode: Decoder<any> | undefined; result: Promise<ApiResult<unknown>> }
+  >()
 
   /**
    * Set up our API instance. Keep this lightweight!
    */
   constructor(config: ApiConfig = DEFAULT_API_CONFIG) {
     this.config = config
+    this.middleware = [...(config.middleware ?? [])]
+    this.cache = new ResponseCache(config.cachePrefix, config.url, config.cacheLimits)
     this.apisauce = create({
       baseURL: this.config.url,
       timeout: this.config.timeout,
@@ -40,6 +80,146 @@ export class Api {
       },
     })
   }
+
+  /**
+   * Adds middleware to the end of the pipeline.
+   *
+   * @returns A function that removes it again.
+   */
+  use(middleware: ApiMiddleware): () => void {
+    this.middleware.push(middleware)
+    return () => {
+      this.middleware = this.middleware.filter((m) => m !== middleware)
+    }
+  }
+
+  /**
+   * Sends a request through the middleware pipeline, retrying temporary
+   * problems on idempotent methods according to the configured retry policy.
+   *
+   * @param config The axios request config: method, url, params, data, ...
+   * @param retry Overrides for the retry policy, or `false` to send only once.
+   */
+  request<T>(
+    config: ApiRequestConfig,
+    retry: Partial<RetryPolicy> | false = {},
+  ): Promise<ApiResponse<T>> {
+    const send = (request: ApiRequestConfig) => {
+      const once = () => this.apisauce.any<T>(request)
+      if (retry === false || this.config.retry === false) return once()
+      return withRetry({ ...DEFAULT_RETRY_POLICY, ...this.config.retry, ...retry }, once)
+    }
+    return composeMiddleware(this.middleware, send)(config)
+  }
+
+  /**
+   * Gets a JSON resource, optionally parsing and decoding it on a worker
+   * runtime so large payloads don't block the JS thread.
+   *
+   * Calls for the same URL, params and decoder made while one is already in
+   * flight share its request and its result, so treat `data` as read-only.
+   *
+   * @param url The path relative to the configured base URL.
+   * @param params Query string parameters.
+   * @param options Whether to parse off-thread, how to decode the payload, how
+   *   long to cache it and whether to share in-flight requests.
+   */
+  getJson<T>(
+    url: string,
+    params?: Record<string, unknown>,
+    options: JsonRequestOptions<T> = {},
+  ): Promise<ApiResult<T>> {
+    if (options.dedupe === false) return this.fetchJson(url, params, options)
+
+    const key = getCacheKey(url, params)
+    const inFlight = this.inFlight.get(key)
+    if (inFlight && inFlight.decode === options.decode) {
+      return inFlight.result as Promise<ApiResult<T>>
+    }
+
+    const result = this.fetchJson(url, params, options).finally(() => {
+      if (this.inFlight.get(key)?.result === result) this.inFlight.delete(key)
+    })
+    this.inFlight.set(key, { decode: options.decode, result })
+    return result
+  }
+
+  private async fetchJson<T>(
+    url: string,
+    params: Record<string, unknown> | undefined,
+    options: JsonRequestOptions<T>,
+  ): Promise<ApiResult<T>> {
+    const { offThread = this.config.parseJsonOffThread ?? false, decode, retry, cache } = options
+
+    const cacheKey = cache ? getCacheKey(url, params) : null
+    const cached = cacheKey ? this.cache.get<T>(cacheKey) : null
+    if (cache && cached && this.cache.isFresh(cached, cache.ttl)) {
+      return { kind: "ok", data: cached.data }
+    }
+
+    let request: ApiRequestConfig = { method: "get", url, params }
+    if (offThread) {
+      // Ask axios for the raw body so nothing gets parsed on the JS thread.
+      request = { ...request, responseType: "text", transformResponse: (data) => data }
+    }
+    if (cached?.etag) {
+      // Our copy is stale, so ask whether it changed. 304 means it didn't.
+      request = {
+        ...withHeaders(request, { "If-None-Match": cached.etag }),
+        validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+      }
+    }
+
+    const response = await this.request<unknown>(request, retry)
+    // apisauce only counts 2xx as ok, so check for 304 first.
+    if (cacheKey && cached && response.status === 304) {
+      this.cache.touch(cacheKey)
+      return { kind: "ok", data: cached.data }
+    }
+    if (!response.ok) {
+      const problem = getGeneralApiProblem(response)
+      if (problem) return problem
+    }
+
+    let decoded: DecodeResult<T>
+    try {
+      decoded = offThread
+        ? await workerPool.submit(parseJson<T>, [(response.data as string) ?? "", decode])
+        : decode
+          ? decode(response.data)
+          : { ok: true, value: response.data as T }
+    } catch (error) {
+      // The pool's queue was cleared, or the decoder itself threw.
+      if (error instanceof JobCancelledError) return { kind: "unknown", temporary: true }
+      return { kind: "bad-data", errors: [{ path: "$", message: (error as Error).message }] }
+    }
+    if (!decoded.ok) return { kind: "bad-data", errors: decoded.errors }
+    const data = decoded.value
+
+    if (cacheKey) this.cache.set(cacheKey, data, response.headers?.etag)
+    return { kind: "ok", data }
+  }
+
+  /**
+   * Gets a list of episodes from an RSS feed, converted to JSON by rss2json.
+   *
+   * Feeds can be large, so the payload is parsed and decoded on a worker
+   * runtime. It is cached for `EPISODES_REQUEST.cache.ttl`.
+   *
+   * @param feedUrl The URL of the RSS feed.
+   */
+  async getEpisodes(
+    feedUrl: string,
+  ): Promise<{ kind: "ok"; episodes: EpisodeItem[] } | GeneralApiProblem> {
+    const result = await this.getJson("api.json", { rss_url: feedUrl }, EPISODES_REQUEST)
+    if (result.kind !== "ok") {
+      if (__DEV__ && result.kind === "bad-data") {
+        console.error(`Bad data from feed ${feedUrl}`, result.errors)
+      }
+      return result
+    }
+    return { kind: "ok", episodes: result.data.items }
+  }
 }
 
 // Singleton instance of the API for convenience
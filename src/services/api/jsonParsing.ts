@@ -0,0 +1,27 @@
+/**
+ * JSON parsing that can run on a worker runtime.
+ *
+ * `JSON.parse` on a multi-megabyte feed is exactly the kind of synchronous work
+ * that freezes the JS thread (see `jamJSThread` in AntigravityScreen). These
+ * helpers are worklets, so `Api` can hand the raw response text to the worker
+ * pool and only get the parsed, decoded object back.
+ */
+import type { DecodeResult, Decoder } from "@/utils/decoders"
+
+/**
+ * Parses `text` and checks the result with `decode`. Never throws: text that
+ * isn't JSON is reported as an error at the root path, `$`.
+ *
+ * @param text The raw response body.
+ * @param decode An optional decoder for the parsed value.
+ */
+export function parseJson<T>(text: string, decode?: Decoder<T>): DecodeResult<T> {
+  "worklet"
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    return { ok: false, errors: [{ path: "$", message: (error as Error).message }] }
+  }
+  return decode ? decode(data) : { ok: true, value: data as T }
+}
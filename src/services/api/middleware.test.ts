@@ -0,0 +1,150 @@
+import { ApiResponse } from "apisauce"
+
+import {
+  ApiMiddleware,
+  ApiNext,
+  authHeader,
+  composeMiddleware,
+  breadcrumbs,
+  logging,
+  mapErrors,
+  requestId,
+  transformResponse,
+} from "./middleware"
+import { createMockApi } from "../../../test/mockAdapter"
+
+const OK = { ok: true, problem: null, status: 200, data: { value: 1 } } as ApiResponse<any>
+const NOT_FOUND = { ok: false, problem: "CLIENT_ERROR", status: 404 } as ApiResponse<any>
+
+function echo(response: ApiResponse<any> = OK) {
+  return jest.fn<ReturnType<ApiNext>, Parameters<ApiNext>>(async () => response)
+}
+
+describe("composeMiddleware", () => {
+  it("runs middleware outermost first", async () => {
+    const calls: string[] = []
+    const trace =
+      (name: string): ApiMiddleware =>
+      async (request, next) => {
+        calls.push(`${name} in`)
+        const response = await next(request)
+        calls.push(`${name} out`)
+        return response
+      }
+
+    await composeMiddleware([trace("a"), trace("b")], echo())({ url: "feed" })
+    expect(calls).toEqual(["a in", "b in", "b out", "a out"])
+  })
+
+  it("lets middleware short-circuit the request", async () => {
+    const send = echo()
+    const cached: ApiMiddleware = async () => OK
+    expect(await composeMiddleware([cached], send)({ url: "feed" })).toBe(OK)
+    expect(send).not.toHaveBeenCalled()
+  })
+})
+
+describe("authHeader", () => {
+  it("adds a bearer token when one is available", async () => {
+    const next = echo()
+    await authHeader(() => "abc")({ url: "feed", headers: { Accept: "text/plain" } }, next)
+    expect(next.mock.calls[0][0].headers).toEqual({
+      Accept: "text/plain",
+      Authorization: "Bearer abc",
+    })
+  })
+
+  it("leaves the request alone when signed out", async () => {
+    const next = echo()
+    await authHeader(async () => null)({ url: "feed" }, next)
+    expect(next.mock.calls[0][0].headers).toBeUndefined()
+  })
+})
+
+describe("requestId", () => {
+  it("stamps each request with a fresh ID", async () => {
+    const next = echo()
+    const middleware = requestId()
+    await middleware({ url: "a" }, next)
+    await middleware({ url: "b" }, next)
+
+    const [first, second] = next.mock.calls.map(
+      ([request]) => (request.headers as any)["X-Request-ID"],
+    )
+    expect(first).toEqual(expect.any(String))
+    expect(first).not.toEqual(second)
+  })
+
+  it("uses the given header and generator", async () => {
+    const next = echo()
+    await requestId("X-Trace", () => "trace-1")({ url: "feed" }, next)
+    expect(next.mock.calls[0][0].headers).toEqual({ "X-Trace": "trace-1" })
+  })
+})
+
+describe("logging", () => {
+  it("logs the method, url and outcome", async () => {
+    const log = jest.fn()
+    await logging(log)({ method: "get", url: "feed" }, echo())
+    await logging(log)({ method: "post", url: "feed" }, echo(NOT_FOUND))
+    expect(log.mock.calls[0][0]).toMatch(/^GET feed → 200 \(\d+ ms\)$/)
+    expect(log.mock.calls[1][0]).toMatch(/^POST feed → CLIENT_ERROR 404 \(\d+ ms\)$/)
+  })
+})
+
+describe("breadcrumbs", () => {
+  it("records each request and its outcome without params", async () => {
+    const add = jest.fn()
+    await breadcrumbs(add)({ method: "get", url: "feed", params: { token: "secret" } }, echo())
+    await breadcrumbs(add)({ method: "post", url: "feed" }, echo(NOT_FOUND))
+
+    expect(add.mock.calls.map(([category, message]) => `${category}: ${message}`)).toEqual([
+      "api: GET feed",
+      "api: GET feed → 200",
+      "api: POST feed",
+      "api: POST feed → CLIENT_ERROR",
+    ])
+    expect(JSON.stringify(add.mock.calls)).not.toContain("secret")
+  })
+})
+
+describe("transformResponse and mapErrors", () => {
+  const unwrap = transformResponse((response) => ({ ...response, data: response.data.value }))
+  const forgive = mapErrors((response) =>
+    response.status === 404 ? { ...OK, data: null } : response,
+  )
+
+  it("only transforms successful responses", async () => {
+    expect((await unwrap({ url: "feed" }, echo())).data).toBe(1)
+    expect(await unwrap({ url: "feed" }, echo(NOT_FOUND))).toBe(NOT_FOUND)
+  })
+
+  it("only maps failed responses", async () => {
+    expect(await forgive({ url: "feed" }, echo())).toBe(OK)
+    expect(await forgive({ url: "feed" }, echo(NOT_FOUND))).toMatchObject({ ok: true, data: null })
+  })
+})
+
+describe("Api middleware", () => {
+  it("runs middleware from ApiConfig and api.use()", async () => {
+    const adapter = jest.fn(() => ({ status: 200, data: "{}" }))
+    const api = createMockApi(adapter, {
+      middleware: [requestId("X-Request-ID", () => "req-1")],
+    })
+
+    const remove = api.use(authHeader(() => "token"))
+    await api.request({ method: "get", url: "feed" })
+    expect(adapter.mock.calls[0]).toEqual([
+      expect.objectContaining({
+        headers: expect.objectContaining({
+          "X-Request-ID": "req-1",
+          "Authorization": "Bearer token",
+        }),
+      }),
+    ])
+
+    remove()
+    await api.request({ method: "get", url: "feed" })
+    expect((adapter.mock.calls[1] as any[])[0].headers.Authorization).toBeUndefined()
+  })
+})
@@ -0,0 +1,163 @@
+/**
+ * A composable middleware pipeline for `Api` requests.
+ *
+ * Each middleware receives the outgoing request and a `next` function that
+ * sends it on down the chain. It can change the request before calling
+ * `next`, change the response after, or skip `next` entirely:
+ *
+ * ```ts
+ * const timing: ApiMiddleware = async (request, next) => {
+ *   const start = Date.now()
+ *   const response = await next(request)
+ *   console.log(request.url, Date.now() - start)
+ *   return response
+ * }
+ * ```
+ *
+ * Middleware runs in the order it is registered, so the first one sees the
+ * request first and the response last. Register it with
+ * `ApiConfig.middleware` or `api.use()`.
+ */
+import { ApiErrorResponse, ApiResponse, ApisauceInstance } from "apisauce"
+
+import { addBreadcrumb } from "@/utils/crashReporting"
+
+/**
+ * The axios request config accepted by `Api.request`: method, url, params, data, headers, ...
+ */
+export type ApiRequestConfig = Parameters<ApisauceInstance["any"]>[0]
+
+/**
+ * Sends a request to the rest of the pipeline.
+ */
+export type ApiNext = (request: ApiRequestConfig) => Promise<ApiResponse<any>>
+
+export type ApiMiddleware = (request: ApiRequestConfig, next: ApiNext) => Promise<ApiResponse<any>>
+
+/**
+ * Chains middleware in front of `send`.
+ *
+ * @param middleware The middleware to run, outermost first.
+ * @param send Sends the request once it has been through every middleware.
+ */
+export function composeMiddleware(middleware: ApiMiddleware[], send: ApiNext): ApiNext {
+  return middleware.reduceRight<ApiNext>(
+    (next, current) => (request) => current(request, next),
+    send,
+  )
+}
+
+/**
+ * Returns a copy of the request with `headers` merged over its existing headers.
+ */
+export function withHeaders(
+  request: ApiRequestConfig,
+  headers: Record<string, string>,
+): ApiRequestConfig {
+  return { ...request, headers: { ...(request.headers as object), ...headers } }
+}
+
+/**
+ * Adds `Authorization: Bearer <token>` to every request while a token is available.
+ *
+ * @param getToken Returns the current access token, or nothing when signed out.
+ */
+export function authHeader(
+  getToken: () => string | null | undefined | Promise<string | null | undefined>,
+): ApiMiddleware {
+  return async (request, next) => {
+    const token = await getToken()
+    return next(token ? withHeaders(request, { Authorization: `Bearer ${token}` }) : request)
+  }
+}
+
+let requestCounter = 0
+
+/**
+ * Generates a reasonably unique request ID without any native dependencies.
+ */
+export function generateRequestId(): string {
+  requestCounter = (requestCounter + 1) % 0x10000
+  const random = Math.floor(Math.random() * 0x100000000).toString(16)
+  return `${Date.now().toString(36)}-${requestCounter.toString(16)}-${random}`
+}
+
+/**
+ * Stamps every request with an ID header so it can be matched with server logs.
+ *
+ * @param header The header name.
+ * @param generate Produces a new ID for each request.
+ */
+export function requestId(
+  header = "X-Request-ID",
+  generate: () => string = generateRequestId,
+): ApiMiddleware {
+  return (request, next) => next(withHeaders(request, { [header]: generate() }))
+}
+
+/**
+ * Logs each request and its outcome with the time it took.
+ *
+ * @param log Where to write the log lines. Defaults to `console.log`.
+ */
+export function logging(log: (message: string) => void = console.log): ApiMiddleware {
+  return async (request, next) => {
+    const method = (request.method ?? "get").toUpperCase()
+    const start = Date.now()
+    const response = await next(request)
+    const outcome = response.ok
+      ? `${response.status}`
+      : `${response.problem} ${response.status ?? ""}`
+    log(`${method} ${request.url} → ${outcome.trim()} (${Date.now() - start} ms)`)
+    return response
+  }
+}
+
+/**
+ * Leaves a crash reporting breadcrumb for each request and its outcome. Only
+ * the method and path are recorded, never params, headers or bodies.
+ *
+ * @param add Records a breadcrumb. Defaults to the crash reporting trail.
+ */
+export function breadcrumbs(add = addBreadcrumb): ApiMiddleware {
+  return async (request, next) => {
+    const label = `${(request.method ?? "get").toUpperCase()} ${request.url}`
+    add("api", label)
+    const start = Date.now()
+    const response = await next(request)
+    add("api", `${label} → ${response.ok ? response.status : response.problem}`, {
+      status: response.status,
+      duration: Date.now() - start,
+    })
+    return response
+  }
+}
+
+/**
+ * Rewrites successful responses, e.g. to unwrap an envelope or rename fields.
+ *
+ * @param transform Receives the response and returns the one to pass on.
+ */
+export function transformResponse(
+  transform: (response: ApiResponse<any>) => ApiResponse<any>,
+): ApiMiddleware {
+  return async (request, next) => {
+    const response = await next(request)
+    return response.ok ? transform(response) : response
+  }
+}
+
+/**
+ * Rewrites failed responses, e.g. to pull a backend-specific error message out
+ * of the body, or to treat a 409 as a success.
+ *
+ * @param map Receives the failed response and returns the one to pass on.
+ */
+export function mapErrors(
+  map: (response: ApiErrorResponse<any>) => ApiResponse<any>,
+): ApiMiddleware {
+  return async (request, next) => {
+    const response = await next(request)
+    return response.ok ? response : map(response)
+  }
+}
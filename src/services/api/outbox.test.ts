@@ -0,0 +1,147 @@
+import { load, storage } from "@/utils/storage"
+
+import { Outbox } from "./outbox"
+import { createMockApi, MockHandler, MockResult } from "../../../test/mockAdapter"
+
+const KEY = "test.outbox"
+
+function createOutbox() {
+  let network: "offline" | "online" | MockResult = "offline"
+  const handler = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>((config) => {
+    if (network === "offline") return "network-error"
+    if (network !== "online") return network
+    return config.url === "reject" ? { status: 422 } : { status: 200, data: "{}" }
+  })
+  const api = createMockApi(handler)
+  const outbox = new Outbox(api, KEY)
+  return {
+    api,
+    outbox,
+    handler,
+    goOnline: () => (network = "online"),
+    respondWith: (result: MockResult) => (network = result),
+  }
+}
+
+const sentUrls = (handler: jest.Mock) =>
+  handler.mock.calls.map(([config]) => `${config.method} ${config.url}`)
+
+describe("Outbox", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("queues requests that can't reach the server and persists them", async () => {
+    const { outbox } = createOutbox()
+    const onQueued = jest.fn()
+    outbox.on("queued", onQueued)
+
+    const result = await outbox.send({ method: "post", url: "notes", data: { text: "hi" } })
+    expect(result.kind).toBe("queued")
+    expect(onQueued).toHaveBeenCalledTimes(1)
+    expect(load<any[]>(KEY)).toEqual([
+      expect.objectContaining({
+        request: expect.objectContaining({ url: "notes", data: { text: "hi" } }),
+      }),
+    ])
+  })
+
+  it("sends straight away when online", async () => {
+    const { outbox, goOnline } = createOutbox()
+    goOnline()
+    const result = await outbox.send({ method: "post", url: "notes" })
+    expect(result).toMatchObject({ kind: "sent", response: { ok: true } })
+    expect(outbox.pending).toHaveLength(0)
+  })
+
+  it("replays queued requests in order and reports results", async () => {
+    const { outbox, handler, goOnline } = createOutbox()
+    await outbox.send({ method: "post", url: "a" })
+    await outbox.send({ method: "put", url: "reject" })
+    await outbox.send({ method: "delete", url: "c" })
+
+    const sent = jest.fn()
+    const failed = jest.fn()
+    outbox.on("sent", sent)
+    outbox.on("failed", failed)
+
+    goOnline()
+    handler.mockClear()
+    await outbox.flush()
+
+    expect(sentUrls(handler)).toEqual(["post a", "put reject", "delete c"])
+    expect(sent.mock.calls.map(([entry]) => entry.request.url)).toEqual(["a", "c"])
+    expect(failed.mock.calls.map(([entry]) => entry.request.url)).toEqual(["reject"])
+    expect(outbox.pending).toHaveLength(0)
+    expect(load(KEY)).toEqual([])
+  })
+
+  it("keeps requests queued while still offline", async () => {
+    const { outbox } = createOutbox()
+    await outbox.send({ method: "post", url: "a" })
+    await outbox.flush()
+    expect(outbox.pending).toHaveLength(1)
+  })
+
+  it("keeps requests queued when the replay times out or the server fails", async () => {
+    const { outbox, handler, goOnline, respondWith } = createOutbox()
+    await outbox.send({ method: "post", url: "a" })
+    await outbox.send({ method: "post", url: "b" })
+    const failed = jest.fn()
+    outbox.on("failed", failed)
+
+    respondWith("timeout")
+    await outbox.flush()
+    respondWith({ status: 503 })
+    await outbox.flush()
+
+    expect(failed).not.toHaveBeenCalled()
+    expect(outbox.pending.map((entry) => entry.request.url)).toEqual(["a", "b"])
+    expect(load<any[]>(KEY)).toHaveLength(2)
+
+    goOnline()
+    handler.mockClear()
+    await outbox.flush()
+    expect(sentUrls(handler)).toEqual(["post a", "post b"])
+    expect(outbox.pending).toHaveLength(0)
+  })
+
+  it("collapses requests with the same dedupe key", async () => {
+    const { outbox, handler, goOnline } = createOutbox()
+    await outbox.send(
+      { method: "put", url: "profile", data: { name: "A" } },
+      { dedupeKey: "profile" },
+    )
+    await outbox.send({ method: "post", url: "notes" })
+    await outbox.send(
+      { method: "put", url: "profile", data: { name: "B" } },
+      { dedupeKey: "profile" },
+    )
+    expect(outbox.pending.map((e) => e.request.url)).toEqual(["profile", "notes"])
+
+    goOnline()
+    handler.mockClear()
+    await outbox.flush()
+    expect(sentUrls(handler)).toEqual(["put profile", "post notes"])
+    expect(JSON.parse(handler.mock.calls[0][0].data)).toEqual({ name: "B" })
+  })
+
+  it("restores the queue from storage", async () => {
+    const first = createOutbox()
+    await first.outbox.send({ method: "post", url: "a" })
+
+    const second = createOutbox()
+    expect(second.outbox.pending.map((e) => e.request.url)).toEqual(["a"])
+  })
+
+  it("flushes when another request succeeds", async () => {
+    const { api, outbox, handler, goOnline } = createOutbox()
+    await outbox.send({ method: "post", url: "a" })
+
+    goOnline()
+    await api.request({ method: "get", url: "feed" })
+    await outbox.flush()
+    expect(sentUrls(handler)).toContain("post a")
+    expect(outbox.pending).toHaveLength(0)
+  })
+})
@@ -0,0 +1,236 @@
+/**
+ * An offline outbox for mutating requests.
+ *
+ * Send a mutation with `outbox.send(request)` instead of `api.request(request)`
+ * and, if the device can't reach the server, the request is saved to storage
+ * instead of being lost. Saved requests are replayed in the order they were
+ * queued the next time we have reason to believe we're back online: the app
+ * returns to the foreground, or any other request succeeds. You can also call
+ * `outbox.flush()` yourself.
+ *
+ * Requests queued with the same `dedupeKey` collapse into one entry holding the
+ * latest request, so e.g. five offline edits of the same profile field only
+ * replay once.
+ *
+ * Listen for `sent` and `failed` events to learn how replayed requests fared.
+ */
+import { AppState } from "react-native"
+import { ApiResponse } from "apisauce"
+
+import { load, save } from "@/utils/storage"
+
+import { getGeneralApiProblem } from "./apiProblem"
+import type { ApiMiddleware, ApiRequestConfig } from "./middleware"
+
+import { api, Api } from "."
+
+/**
+ * A request waiting in the outbox.
+ */
+export interface OutboxEntry {
+  id: string
+  request: ApiRequestConfig
+  dedupeKey?: string
+  queuedAt: number
+}
+
+export interface OutboxEvents {
+  /**
+   * A request was saved for later.
+   */
+  queued: (entry: OutboxEntry) => void
+  /**
+   * A queued request reached the server and succeeded.
+   */
+  sent: (entry: OutboxEntry, response: ApiResponse<any>) => void
+  /**
+   * A queued request reached the server and was rejected with a 4xx. It is not
+   * retried. Timeouts and 5xx responses keep the request queued instead.
+   */
+  failed: (entry: OutboxEntry, response: ApiResponse<any>) => void
+}
+
+export type OutboxResult<T> =
+  | { kind: "sent"; response: ApiResponse<T> }
+  | { kind: "queued"; entry: OutboxEntry }
+
+export interface OutboxSendOptions {
+  /**
+   * Requests with the same key replace each other while queued.
+   */
+  dedupeKey?: string
+}
+
+export const DEFAULT_OUTBOX_STORAGE_KEY = "api.outbox"
+
+let nextEntryId = 0
+
+/**
+ * Persists mutations made while offline and replays them when we reconnect.
+ */
+export class Outbox {
+  storageKey: string
+
+  private api: Api
+  private entries: OutboxEntry[]
+  private flushing: Promise<void> | null = null
+  private flushAgain = false
+  private listeners: { [E in keyof OutboxEvents]: Set<OutboxEvents[E]> } = {
+    queued: new Set(),
+    sent: new Set(),
+    failed: new Set(),
+  }
+
+  /**
+   * Loads any saved entries and starts watching for signs of connectivity.
+   */
+  constructor(apiInstance: Api, storageKey = DEFAULT_OUTBOX_STORAGE_KEY) {
+    this.api = apiInstance
+    this.storageKey = storageKey
+    this.entries = load<OutboxEntry[]>(storageKey) ?? []
+
+    apiInstance.use(this.watchConnectivity)
+    AppState.addEventListener("change", (state) => {
+      if (state === "active") this.flush()
+    })
+  }
+
+  /**
+   * The requests currently waiting, oldest first.
+   */
+  get pending(): readonly OutboxEntry[] {
+    return this.entries
+  }
+
+  /**
+   * Sends a request, or queues it if the server can't be reached. While older
+   * requests are still queued, new ones join the back of the queue so they
+   * can't overtake them.
+   *
+   * @param request The request to send. Only its serializable parts are saved.
+   * @param options How to dedupe the request while it is queued.
+   */
+  async send<T>(
+    request: ApiRequestConfig,
+    options: OutboxSendOptions = {},
+  ): Promise<OutboxResult<T>> {
+    if (this.entries.length) {
+      const entry = this.enqueue(request, options)
+      this.flush()
+      return { kind: "queued", entry }
+    }
+
+    const response = await this.api.request<T>(request, false)
+    if (!isOffline(response)) return { kind: "sent", response }
+    return { kind: "queued", entry: this.enqueue(request, options) }
+  }
+
+  /**
+   * Queues a request without trying to send it first.
+   */
+  enqueue(request: ApiRequestConfig, { dedupeKey }: OutboxSendOptions = {}): OutboxEntry {
+    const { method, url, params, data, headers } = request
+    const entry: OutboxEntry = {
+      id: `${Date.now().toString(36)}-${nextEntryId++}`,
+      request: { method, url, params, data, headers },
+      dedupeKey,
+      queuedAt: Date.now(),
+    }
+
+    const existing = dedupeKey ? this.entries.findIndex((e) => e.dedupeKey === dedupeKey) : -1
+    if (existing === -1) {
+      this.entries.push(entry)
+    } else {
+      this.entries[existing] = { ...entry, queuedAt: this.entries[existing].queuedAt }
+    }
+    this.persist()
+    this.emit("queued", entry)
+    return entry
+  }
+
+  /**
+   * Replays queued requests in order. Stops at the first one that still can't
+   * be delivered (see `shouldRetryLater`), leaving it queued. Calls made while a flush is running don't start a second
+   * one; instead the running flush goes round once more before resolving, in
+   * case it gave up just before connectivity came back.
+   */
+  flush(): Promise<void> {
+    if (this.flushing) {
+      this.flushAgain = true
+      return this.flushing
+    }
+    this.flushing = (async () => {
+      do {
+        this.flushAgain = false
+        await this.replay()
+      } while (this.flushAgain && this.entries.length)
+    })().finally(() => {
+      this.flushing = null
+    })
+    return this.flushing
+  }
+
+  /**
+   * Drops every queued request.
+   */
+  clear() {
+    this.entries = []
+    this.persist()
+  }
+
+  /**
+   * Subscribes to outbox events.
+   *
+   * @returns A function that unsubscribes.
+   */
+  on<E extends keyof OutboxEvents>(event: E, listener: OutboxEvents[E]): () => void {
+    this.listeners[event].add(listener)
+    return () => this.listeners[event].delete(listener)
+  }
+
+  private async replay() {
+    while (this.entries.length) {
+      const entry = this.entries[0]
+      const response = await this.api.request(entry.request, false)
+      if (shouldRetryLater(response)) return
+
+      this.entries = this.entries.filter((e) => e.id !== entry.id)
+      this.persist()
+      this.emit(response.ok ? "sent" : "failed", entry, response)
+    }
+  }
+
+  /**
+   * Any successful response means we're online, so try to empty the outbox.
+   */
+  private watchConnectivity: ApiMiddleware = async (request, next) => {
+    const response = await next(request)
+    if (response.ok && this.entries.length) this.flush()
+    return response
+  }
+
+  private persist() {
+    save(this.storageKey, this.entries)
+  }
+
+  private emit<E extends keyof OutboxEvents>(event: E, ...args: Parameters<OutboxEvents[E]>) {
+    this.listeners[event].forEach((listener) => (listener as (...a: typeof args) => void)(...args))
+  }
+}
+
+function isOffline(response: ApiResponse<unknown>): boolean {
+  return getGeneralApiProblem(response)?.kind === "cannot-connect"
+}
+
+/**
+ * Whether a replayed request should stay queued: it hit a temporary problem
+ * such as a timeout, or the server failed with a 5xx. Only a 4xx means the
+ * server has seen the request and won't take it.
+ */
+function shouldRetryLater(response: ApiResponse<unknown>): boolean {
+  const problem = getGeneralApiProblem(response)
+  return !!problem && ("temporary" in problem || problem.kind === "server")
+}
+
+// Singleton outbox for the shared api instance
+export const outbox = new Outbox(api)
@@ -0,0 +1,118 @@
+import { ApiResponse } from "apisauce"
+
+import { DEFAULT_RETRY_POLICY, getRetryDelay, parseRetryAfter } from "./retry"
+import { createMockApi, MockResponse } from "../../../test/mockAdapter"
+
+const NO_JITTER = { ...DEFAULT_RETRY_POLICY, jitter: 0 }
+
+function failure(
+  problem: string,
+  extra: { status?: number; method?: string; headers?: Record<string, string> } = {},
+) {
+  return {
+    ok: false,
+    problem,
+    status: extra.status,
+    headers: extra.headers,
+    config: { method: extra.method ?? "get" },
+  } as ApiResponse<unknown>
+}
+
+describe("parseRetryAfter", () => {
+  it("reads delay-seconds", () => {
+    expect(parseRetryAfter("3")).toBe(3000)
+  })
+
+  it("reads HTTP dates", () => {
+    const now = Date.parse("Wed, 21 Oct 2015 07:28:00 GMT")
+    expect(parseRetryAfter("Wed, 21 Oct 2015 07:28:05 GMT", now)).toBe(5000)
+  })
+
+  it("ignores missing or garbage values", () => {
+    expect(parseRetryAfter(undefined)).toBeNull()
+    expect(parseRetryAfter("soon")).toBeNull()
+  })
+})
+
+describe("getRetryDelay", () => {
+  it("backs off exponentially for temporary problems", () => {
+    const response = failure("TIMEOUT_ERROR")
+    expect(getRetryDelay({ ...NO_JITTER, maxAttempts: 5 }, 1, response)).toBe(500)
+    expect(getRetryDelay({ ...NO_JITTER, maxAttempts: 5 }, 2, response)).toBe(1000)
+    expect(getRetryDelay({ ...NO_JITTER, maxAttempts: 5 }, 3, response)).toBe(2000)
+  })
+
+  it("caps the backoff at maxDelay", () => {
+    const policy = { ...NO_JITTER, maxAttempts: 10, maxDelay: 1500 }
+    expect(getRetryDelay(policy, 6, failure("CONNECTION_ERROR"))).toBe(1500)
+  })
+
+  it("applies jitter within the configured fraction", () => {
+    jest.spyOn(Math, "random").mockReturnValueOnce(1).mockReturnValueOnce(0)
+    const policy = { ...DEFAULT_RETRY_POLICY, jitter: 0.5 }
+    expect(getRetryDelay(policy, 1, failure("NETWORK_ERROR"))).toBe(250)
+    expect(getRetryDelay(policy, 1, failure("NETWORK_ERROR"))).toBe(500)
+  })
+
+  it("stops after maxAttempts", () => {
+    expect(getRetryDelay(NO_JITTER, 3, failure("TIMEOUT_ERROR"))).toBeNull()
+  })
+
+  it("does not retry permanent problems", () => {
+    expect(getRetryDelay(NO_JITTER, 1, failure("SERVER_ERROR", { status: 500 }))).toBeNull()
+    expect(getRetryDelay(NO_JITTER, 1, failure("CLIENT_ERROR", { status: 401 }))).toBeNull()
+  })
+
+  it("does not retry 304 Not Modified", () => {
+    expect(getRetryDelay(NO_JITTER, 1, failure("UNKNOWN_ERROR", { status: 304 }))).toBeNull()
+  })
+
+  it("does not retry non-idempotent methods", () => {
+    expect(getRetryDelay(NO_JITTER, 1, failure("TIMEOUT_ERROR", { method: "post" }))).toBeNull()
+    expect(getRetryDelay(NO_JITTER, 1, failure("TIMEOUT_ERROR", { method: "PUT" }))).toBe(500)
+  })
+
+  it("honors Retry-After on 429 and 503", () => {
+    const throttled = failure("CLIENT_ERROR", { status: 429, headers: { "Retry-After": "2" } })
+    expect(getRetryDelay(NO_JITTER, 1, throttled)).toBe(2000)
+
+    const tooLong = failure("SERVER_ERROR", { status: 503, headers: { "retry-after": "60" } })
+    expect(getRetryDelay(NO_JITTER, 1, tooLong)).toBeNull()
+  })
+})
+
+describe("Api.request", () => {
+  function createApi(responses: (MockResponse | "network-error")[], retry = {}) {
+    const handler = jest.fn(() => responses.shift() ?? { status: 200, data: "{}" })
+    const api = createMockApi(handler, { retry: { baseDelay: 0, ...retry } })
+    return { api, handler }
+  }
+
+  it("retries temporary failures until one succeeds", async () => {
+    const { api, handler } = createApi(["network-error", "network-error", { status: 200 }])
+    const response = await api.request({ method: "get", url: "feed" })
+    expect(response.ok).toBe(true)
+    expect(handler).toHaveBeenCalledTimes(3)
+  })
+
+  it("gives up after maxAttempts", async () => {
+    const { api, handler } = createApi(["network-error", "network-error", "network-error"], {
+      maxAttempts: 2,
+    })
+    const response = await api.request({ method: "get", url: "feed" })
+    expect(response.problem).toBe("NETWORK_ERROR")
+    expect(handler).toHaveBeenCalledTimes(2)
+  })
+
+  it("sends mutations only once", async () => {
+    const { api, handler } = createApi(["network-error"])
+    await api.request({ method: "post", url: "feed", data: {} })
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it("can opt out per request", async () => {
+    const { api, handler } = createApi(["network-error"])
+    await api.request({ method: "get", url: "feed" }, false)
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+})
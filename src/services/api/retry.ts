@@ -0,0 +1,124 @@
+/**
+ * Retries for requests that fail for reasons likely to go away on their own:
+ * a flaky mobile connection, a timeout, or a server asking us to come back
+ * later with `Retry-After`.
+ *
+ * Only idempotent methods are retried, so a retry can never apply a mutation twice.
+ */
+import { ApiResponse } from "apisauce"
+
+import { delay } from "@/utils/delay"
+
+import { getGeneralApiProblem } from "./apiProblem"
+
+/**
+ * How and when failed requests are retried.
+ */
+export interface RetryPolicy {
+  /**
+   * Total attempts including the first one. 1 disables retries.
+   */
+  maxAttempts: number
+
+  /**
+   * Delay in milliseconds before the first retry. Doubles on every further retry.
+   */
+  baseDelay: number
+
+  /**
+   * Upper bound for the backoff delay. A `Retry-After` longer than this gives up instead.
+   */
+  maxDelay: number
+
+  /**
+   * Fraction of the backoff delay that is randomized, from 0 (none) to 1 (full
+   * jitter). Spreads out retries from many clients failing at the same moment.
+   */
+  jitter: number
+
+  /**
+   * HTTP methods that are safe to retry, in lower case.
+   */
+  methods: string[]
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelay: 500,
+  maxDelay: 10000,
+  jitter: 0.5,
+  methods: ["get", "head", "options", "put", "delete"],
+}
+
+/**
+ * Reads a `Retry-After` header, which is either a number of seconds or an HTTP date.
+ *
+ * @returns The delay in milliseconds, or null if the header is missing or unreadable.
+ */
+export function parseRetryAfter(value: string | undefined, now = Date.now()): number | null {
+  if (!value) return null
+  const seconds = Number(value)
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(value)
+  return Number.isNaN(date) ? null : Math.max(0, date - now)
+}
+
+/**
+ * Works out how long to wait before retrying a failed response.
+ *
+ * @param policy The retry policy in effect.
+ * @param attempt The attempt that just failed, starting at 1.
+ * @param response The failed response.
+ * @returns Milliseconds to wait, or null if the request should not be retried.
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  response: ApiResponse<unknown>,
+): number | null {
+  if (response.ok || attempt >= policy.maxAttempts) return null
+  // A 304 answers a conditional request; apisauce just doesn't count it as ok.
+  if (response.status === 304) return null
+
+  const method = (response.config?.method ?? "get").toLowerCase()
+  if (!policy.methods.includes(method)) return null
+
+  // 429 and 503 with Retry-After are the server telling us the problem is temporary.
+  const retryAfter = parseRetryAfter(getHeader(response, "retry-after"))
+  if (retryAfter !== null && (response.status === 429 || response.status === 503)) {
+    return retryAfter <= policy.maxDelay ? retryAfter : null
+  }
+
+  const problem = getGeneralApiProblem(response)
+  if (!problem || !("temporary" in problem)) return null
+
+  const backoff = Math.min(policy.maxDelay, policy.baseDelay * 2 ** (attempt - 1))
+  const jitter = Math.min(1, Math.max(0, policy.jitter))
+  return Math.round(backoff * (1 - jitter * Math.random()))
+}
+
+/**
+ * Sends a request, retrying it according to `policy` while it keeps failing
+ * with a retryable problem.
+ *
+ * @param policy The retry policy in effect.
+ * @param send Sends the request once. Called again for every retry.
+ * @returns The first successful response, or the last failed one.
+ */
+export async function withRetry<T>(
+  policy: RetryPolicy,
+  send: () => Promise<ApiResponse<T>>,
+): Promise<ApiResponse<T>> {
+  for (let attempt = 1; ; attempt++) {
+    const response = await send()
+    const wait = getRetryDelay(policy, attempt, response)
+    if (wait === null) return response
+    await delay(wait)
+  }
+}
+
+function getHeader(response: ApiResponse<unknown>, name: string): string | undefined {
+  const headers = response.headers ?? {}
+  const key = Object.keys(headers).find((k) => k.toLowerCase() === name)
+  return key ? headers[key] : undefined
+}
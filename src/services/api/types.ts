@@ -1,6 +1,15 @@
+import * as d from "@/utils/decoders"
+import type { Decoder } from "@/utils/decoders"
+
+import type { GeneralApiProblem } from "./apiProblem"
+import type { CacheLimits } from "./cache"
+import type { ApiMiddleware } from "./middleware"
+import type { RetryPolicy } from "./retry"
+
 /**
  * These types indicate the shape of the data you expect to receive from your
- * API endpoint, assuming it's a JSON object like we have.
+ * API endpoint, assuming it's a JSON object like we have. Each one has a
+ * decoder next to it that checks payloads against it at runtime.
  */
 export interface EpisodeItem {
   title: string
@@ -21,6 +30,25 @@ export interface EpisodeItem {
   categories: string[]
 }
 
+export const episodeItemDecoder: Decoder<EpisodeItem> = d.object({
+  title: d.string,
+  pubDate: d.string,
+  link: d.string,
+  guid: d.string,
+  author: d.string,
+  thumbnail: d.string,
+  description: d.string,
+  content: d.string,
+  enclosure: d.object({
+    link: d.string,
+    type: d.string,
+    length: d.number,
+    duration: d.number,
+    rating: d.object({ scheme: d.string, value: d.string }),
+  }),
+  categories: d.array(d.string),
+})
+
 export interface ApiFeedResponse {
   status: string
   feed: {
@@ -34,6 +62,19 @@ export interface ApiFeedResponse {
   items: EpisodeItem[]
 }
 
+export const apiFeedResponseDecoder: Decoder<ApiFeedResponse> = d.object({
+  status: d.literal("ok"),
+  feed: d.object({
+    url: d.string,
+    title: d.string,
+    link: d.string,
+    author: d.string,
+    description: d.string,
+    image: d.string,
+  }),
+  items: d.array(episodeItemDecoder),
+})
+
 /**
  * The options used to configure apisauce.
  */
@@ -47,4 +88,70 @@ export interface ApiConfig {
    * Milliseconds before we timeout the request.
    */
   timeout: number
+
+  /**
+   * Whether `getJson` parses response bodies on a worker runtime by default.
+   * Individual requests can override this with `JsonRequestOptions.offThread`.
+   */
+  parseJsonOffThread?: boolean
+
+  /**
+   * Overrides for the default retry policy, or `false` to never retry.
+   */
+  retry?: Partial<RetryPolicy> | false
+
+  /**
+   * Middleware every request passes through, outermost first. See `./middleware`.
+   */
+  middleware?: ApiMiddleware[]
+
+  /**
+   * Storage key prefix for cached responses. Defaults to `DEFAULT_CACHE_PREFIX`.
+   */
+  cachePrefix?: string
+
+  /**
+   * Overrides for how many cached responses are kept, and for how long. See `./cache`.
+   */
+  cacheLimits?: Partial<CacheLimits>
+}
+
+/**
+ * Per-request options for `Api.getJson`.
+ */
+export interface JsonRequestOptions<T> {
+  /**
+   * Fetch the body as text and parse it on a worker runtime instead of the JS
+   * thread. Worth it for large payloads. Defaults to `ApiConfig.parseJsonOffThread`.
+   */
+  offThread?: boolean
+
+  /**
+   * Checks the payload, turning a mismatch into a `bad-data` problem. See `@/utils/decoders`.
+   */
+  decode?: Decoder<T>
+
+  /**
+   * Overrides for the retry policy, or `false` to send the request only once.
+   */
+  retry?: Partial<RetryPolicy> | false
+
+  /**
+   * Cache the payload in storage. Within `ttl` milliseconds it is returned
+   * without a request; after that it is revalidated with `If-None-Match`.
+   * See `./cache`.
+   */
+  cache?: { ttl: number }
+
+  /**
+   * Share the request with identical calls already in flight. Defaults to true.
+   * Turn it off when the caller needs a response of its own, e.g. a refresh
+   * that must not reuse a request started before a mutation.
+   */
+  dedupe?: boolean
 }
+
+/**
+ * The outcome of a request: either the typed payload or the reason we don't have one.
+ */
+export type ApiResult<T> = { kind: "ok"; data: T } | GeneralApiProblem
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+
+import type { GeneralApiProblem } from "./apiProblem"
+import { getCacheKey } from "./cache"
+import type { EpisodeItem, JsonRequestOptions } from "./types"
+
+import { api, Api, EPISODES_REQUEST } from "."
+
+export interface QueryOptions<T> extends Omit<JsonRequestOptions<T>, "cache"> {
+  /**
+   * How long a cached payload counts as fresh, in milliseconds. Stale payloads
+   * are still shown while they are revalidated in the background.
+   */
+  ttl?: number
+
+  /**
+   * The Api instance to fetch with. Defaults to the shared `api`.
+   */
+  api?: Api
+}
+
+export interface QueryResult<T> {
+  /**
+   * The latest payload, from the cache or the network. Null until we have one.
+   */
+  data: T | null
+  /**
+   * Why the latest fetch failed. Cleared by the next successful one.
+   */
+  problem: GeneralApiProblem | null
+  /**
+   * Fetching with nothing to show yet.
+   */
+  isLoading: boolean
+  /**
+   * Fetching in the background while showing cached data.
+   */
+  isRefreshing: boolean
+  /**
+   * Fetches again, ignoring the TTL.
+   */
+  refetch: () => Promise<void>
+}
+
+interface QueryState<T> {
+  key: string | null
+  data: T | null
+  problem: GeneralApiProblem | null
+  isFetching: boolean
+}
+
+export const DEFAULT_QUERY_TTL = 60 * 1000
+
+/**
+ * Fetches a JSON resource with stale-while-revalidate caching. Whatever is in
+ * the cache is returned on the very first render, so screens can show the last
+ * known data on a cold start, and the resource is refetched in the background
+ * once the cached copy is older than `ttl`.
+ * @param {string | null} url - The path to fetch, or null to fetch nothing yet.
+ * @param {Record<string, unknown>} params - Query string parameters.
+ * @param {QueryOptions} options - Request options, TTL and Api instance.
+ * @returns {QueryResult} - The data, the latest problem and the fetch status.
+ */
+export function useQuery<T>(
+  url: string | null,
+  params?: Record<string, unknown>,
+  options: QueryOptions<T> = {},
+): QueryResult<T> {
+  const key = url === null ? null : getCacheKey(url, params)
+  const latest = useRef({ url, params, options })
+  latest.current = { url, params, options }
+
+  const initialState = (): QueryState<T> => ({
+    key,
+    data: key ? ((options.api ?? api).cache.get<T>(key)?.data ?? null) : null,
+    problem: null,
+    isFetching: false,
+  })
+  const [state, setState] = useState(initialState)
+  if (state.key !== key) setState(initialState())
+
+  const fetchQuery = useCallback(
+    async (ttl: number) => {
+      const { url, params, options } = latest.current
+      if (key === null || url === null) return
+
+      setState((s) => (s.key === key ? { ...s, isFetching: true } : s))
+      const result = await (options.api ?? api).getJson<T>(url, params, {
+        ...options,
+        cache: { ttl },
+      })
+      setState((s) => {
+        if (s.key !== key) return s
+        if (result.kind === "ok")
+          return { key, data: result.data, problem: null, isFetching: false }
+        return { ...s, problem: result, isFetching: false }
+      })
+    },
+    [key],
+  )
+
+  useEffect(() => {
+    fetchQuery(latest.current.options.ttl ?? DEFAULT_QUERY_TTL)
+  }, [fetchQuery])
+
+  const refetch = useCallback(() => fetchQuery(0), [fetchQuery])
+
+  return {
+    data: state.data,
+    problem: state.problem,
+    isLoading: state.isFetching && state.data === null,
+    isRefreshing: state.isFetching && state.data !== null,
+    refetch,
+  }
+}
+
+/**
+ * The episodes of an RSS feed, served from the cache first. See `Api.getEpisodes`.
+ * @param {string} feedUrl - The URL of the RSS feed.
+ * @returns {QueryResult} - The episodes and the fetch status.
+ */
+export function useEpisodes(feedUrl: string): QueryResult<EpisodeItem[]> {
+  const { data, ...query } = useQuery(
+    "api.json",
+    { rss_url: feedUrl },
+    { ...EPISODES_REQUEST, ttl: EPISODES_REQUEST.cache.ttl },
+  )
+  return { data: data?.items ?? null, ...query }
+}
@@ -0,0 +1,172 @@
+import { createStorage, load, save, storage } from "@/utils/storage"
+
+import { createMockApi, MockHandler } from "../../../test/mockAdapter"
+
+import { AuthSession } from "."
+
+const TOKENS = { accessToken: "access-1", refreshToken: "refresh-1" }
+const FRESH = { accessToken: "access-2", refreshToken: "refresh-2" }
+
+const authStorage = createStorage("test.auth")
+const config = { storageKey: "auth.tokens", storage: authStorage }
+
+function authorization(config: Parameters<MockHandler>[0]) {
+  return (config.headers as Record<string, string> | undefined)?.Authorization
+}
+
+/**
+ * A backend that only accepts `access-2` and refreshes `refresh-1` into FRESH.
+ */
+function createBackend() {
+  const handler = jest.fn<ReturnType<MockHandler>, Parameters<MockHandler>>((config) => {
+    if (config.url === "auth/refresh") {
+      const { refreshToken } = JSON.parse(config.data)
+      return refreshToken === "refresh-1"
+        ? { status: 200, data: JSON.stringify(FRESH) }
+        : { status: 401 }
+    }
+    return authorization(config) === "Bearer access-2"
+      ? { status: 200, data: "{}" }
+      : { status: 401 }
+  })
+  const api = createMockApi(handler)
+  return { api, handler }
+}
+
+describe("AuthSession", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    authStorage.clear()
+  })
+
+  it("persists tokens", () => {
+    const { api } = createBackend()
+    const session = new AuthSession(api, config)
+    expect(session.isSignedIn).toBe(false)
+
+    session.setTokens(TOKENS)
+    expect(authStorage.load("auth.tokens")).toEqual(TOKENS)
+    expect(load("auth.tokens")).toBeNull()
+    expect(new AuthSession(api, config).isSignedIn).toBe(true)
+
+    session.clearTokens()
+    expect(authStorage.load("auth.tokens")).toBeNull()
+  })
+
+  it("moves tokens out of the shared storage", () => {
+    const { api } = createBackend()
+    save("auth.tokens", TOKENS)
+
+    expect(new AuthSession(api, config).isSignedIn).toBe(true)
+    expect(authStorage.load("auth.tokens")).toEqual(TOKENS)
+    expect(load("auth.tokens")).toBeNull()
+  })
+
+  it("sends requests without a token when signed out", async () => {
+    const { api, handler } = createBackend()
+    new AuthSession(api, config)
+
+    const response = await api.request({ method: "get", url: "me" })
+    expect(response.status).toBe(401)
+    expect(authorization(handler.mock.calls[0][0])).toBeUndefined()
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it("only sends the token to the API's base URL", async () => {
+    const { api, handler } = createBackend()
+    const session = new AuthSession(api, config)
+    session.setTokens(FRESH)
+
+    await api.request({ method: "get", url: "me" })
+    await api.request({ method: "get", url: "https://example.test/me" })
+    await api.request({ method: "get", url: "https://flags.example.test/flags.json" })
+    await api.request({ method: "get", url: "https://example.test.evil/me" })
+    await api.request({ method: "get", url: "//flags.example.test/flags.json" })
+
+    expect(handler.mock.calls.map(([config]) => authorization(config))).toEqual([
+      "Bearer access-2",
+      "Bearer access-2",
+      undefined,
+      undefined,
+      undefined,
+    ])
+    // A 401 from another host doesn't trigger a refresh either.
+    expect(handler).toHaveBeenCalledTimes(5)
+    expect(session.isSignedIn).toBe(true)
+  })
+
+  it("refreshes on 401 and retries with the new token", async () => {
+    const { api, handler } = createBackend()
+    const session = new AuthSession(api, config)
+    session.setTokens(TOKENS)
+
+    const response = await api.request({ method: "get", url: "me" })
+    expect(response.ok).toBe(true)
+    expect(handler.mock.calls.map(([config]) => config.url)).toEqual(["me", "auth/refresh", "me"])
+    expect(authStorage.load("auth.tokens")).toEqual(FRESH)
+  })
+
+  it("runs a single refresh for concurrent requests", async () => {
+    const { api, handler } = createBackend()
+    const session = new AuthSession(api, config)
+    session.setTokens(TOKENS)
+
+    const responses = await Promise.all(
+      ["a", "b", "c"].map((url) => api.request({ method: "get", url })),
+    )
+    expect(responses.every((response) => response.ok)).toBe(true)
+    expect(handler.mock.calls.filter(([config]) => config.url === "auth/refresh")).toHaveLength(1)
+  })
+
+  it("expires the session when the refresh fails", async () => {
+    const { api } = createBackend()
+    const session = new AuthSession(api, config)
+    session.setTokens({ accessToken: "access-1", refreshToken: "revoked" })
+    const onExpired = jest.fn()
+    session.onSessionExpired(onExpired)
+
+    const response = await api.request({ method: "get", url: "me" })
+    expect(response.status).toBe(401)
+    expect(onExpired).toHaveBeenCalledTimes(1)
+    expect(session.isSignedIn).toBe(false)
+  })
+
+  it("keeps the session when the refresh can't reach the backend", async () => {
+    const { api, handler } = createBackend()
+    handler.mockImplementation((config) =>
+      config.url === "auth/refresh" ? "network-error" : { status: 401 },
+    )
+    const session = new AuthSession(api, config)
+    session.setTokens(TOKENS)
+    const onExpired = jest.fn()
+    session.onSessionExpired(onExpired)
+
+    const response = await api.request({ method: "get", url: "me" })
+    expect(response.status).toBe(401)
+    expect(onExpired).not.toHaveBeenCalled()
+    expect(session.isSignedIn).toBe(true)
+    expect(authStorage.load("auth.tokens")).toEqual(TOKENS)
+  })
+
+  it("keeps the session when a custom refresh throws", async () => {
+    const { api } = createBackend()
+    const refresh = jest.fn(async () => {
+      throw new Error("timeout")
+    })
+    const session = new AuthSession(api, { ...config, refresh })
+    session.setTokens(TOKENS)
+
+    expect((await api.request({ method: "get", url: "me" })).status).toBe(401)
+    expect(session.isSignedIn).toBe(true)
+  })
+
+  it("uses a custom refresh function", async () => {
+    const { api } = createBackend()
+    const refresh = jest.fn(async () => FRESH)
+    const session = new AuthSession(api, { ...config, refresh })
+    session.setTokens(TOKENS)
+
+    expect((await api.request({ method: "get", url: "me" })).ok).toBe(true)
+    expect(refresh).toHaveBeenCalledWith("refresh-1")
+  })
+})
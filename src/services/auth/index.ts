@@ -0,0 +1,195 @@
+/**
+ * Token-based authentication for the `Api`.
+ *
+ * `AuthSession` keeps the access/refresh token pair in an encrypted storage
+ * namespace (`authStorage`), attaches the access token to every request, and
+ * refreshes it when the backend answers with 401. Only one refresh runs at a
+ * time: requests that hit a 401 (or start) while a refresh is in flight wait
+ * for it and then go out with the new token. Requests to absolute URLs outside
+ * the API's base URL, such as a feature flag file on a CDN, never get the token.
+ *
+ * If the backend rejects the refresh token, the tokens are cleared and
+ * `onSessionExpired` listeners are called so the app can send the user back to
+ * sign in. If the refresh can't be completed (offline, timeout, server error),
+ * the tokens are kept and the request gets its original 401.
+ */
+import Config from "@/config"
+import { api, Api } from "@/services/api"
+import { getGeneralApiProblem } from "@/services/api/apiProblem"
+import { ApiMiddleware, ApiRequestConfig, withHeaders } from "@/services/api/middleware"
+import { createStorage, load, remove } from "@/utils/storage"
+
+import type { AuthConfig, AuthTokens, RefreshTokens } from "./types"
+
+/**
+ * The encrypted namespace auth tokens are kept in.
+ */
+export const authStorage = createStorage("auth", {
+  encryptionKey: Config.authStorageEncryptionKey,
+})
+
+export const DEFAULT_AUTH_CONFIG: AuthConfig = {
+  storageKey: "auth.tokens",
+  storage: authStorage,
+}
+
+/**
+ * Owns the current tokens and keeps an `Api` instance authenticated.
+ */
+export class AuthSession {
+  config: AuthConfig
+
+  private api: Api
+  private tokens: AuthTokens | null
+  private refreshing: Promise<string | null> | null = null
+  private expiredListeners = new Set<() => void>()
+
+  /**
+   * Loads any persisted tokens and registers the auth middleware on `api`.
+   */
+  constructor(apiInstance: Api, config: AuthConfig = DEFAULT_AUTH_CONFIG) {
+    this.api = apiInstance
+    this.config = config
+    this.tokens = config.storage.load<AuthTokens>(config.storageKey) ?? this.adoptSharedTokens()
+    apiInstance.use(this.middleware)
+  }
+
+  /**
+   * Whether we currently hold tokens.
+   */
+  get isSignedIn(): boolean {
+    return !!this.tokens
+  }
+
+  /**
+   * Stores a freshly issued token pair, e.g. after signing in.
+   */
+  setTokens(tokens: AuthTokens) {
+    this.tokens = tokens
+    this.config.storage.save(this.config.storageKey, tokens)
+  }
+
+  /**
+   * Forgets the tokens, e.g. when signing out.
+   */
+  clearTokens() {
+    this.tokens = null
+    this.config.storage.remove(this.config.storageKey)
+  }
+
+  /**
+   * The access token to send with a request. Waits for a refresh in progress.
+   */
+  async getAccessToken(): Promise<string | null> {
+    if (this.refreshing) return this.refreshing
+    return this.tokens?.accessToken ?? null
+  }
+
+  /**
+   * Registers a callback for when the session can't be refreshed.
+   *
+   * @returns A function that removes the callback.
+   */
+  onSessionExpired(listener: () => void): () => void {
+    this.expiredListeners.add(listener)
+    return () => this.expiredListeners.delete(listener)
+  }
+
+  /**
+   * Refreshes the tokens after `staleToken` was rejected. Concurrent callers
+   * share one refresh, and callers whose token was already replaced get the
+   * new one without another round trip.
+   *
+   * @param staleToken The access token that got a 401.
+   * @returns The new access token, or null if the session has expired or the
+   *   refresh couldn't reach the backend.
+   */
+  refresh(staleToken: string | null): Promise<string | null> {
+    if (this.refreshing) return this.refreshing
+    if (!this.tokens) return Promise.resolve(null)
+    if (this.tokens.accessToken !== staleToken) return Promise.resolve(this.tokens.accessToken)
+
+    const { refreshToken } = this.tokens
+    const refresh = this.config.refresh ?? this.defaultRefresh
+    this.refreshing = refresh(refreshToken)
+      .then((tokens) => {
+        if (tokens) {
+          this.setTokens(tokens)
+          return tokens.accessToken
+        }
+        this.expire()
+        return null
+      })
+      // A refresh that couldn't reach the backend says nothing about the
+      // tokens, so keep them for the next request.
+      .catch(() => null)
+      .finally(() => {
+        this.refreshing = null
+      })
+    return this.refreshing
+  }
+
+  /**
+   * Attaches the access token and retries once with a refreshed token on 401.
+   */
+  private middleware: ApiMiddleware = async (request, next) => {
+    if (!isApiUrl(request.url, this.api.config.url)) return next(request)
+
+    const token = await this.getAccessToken()
+    const response = await next(token ? withBearer(request, token) : request)
+    if (!token || getGeneralApiProblem(response)?.kind !== "unauthorized") return response
+
+    const freshToken = await this.refresh(token)
+    return freshToken ? next(withBearer(request, freshToken)) : response
+  }
+
+  /**
+   * POSTs the refresh token to `auth/refresh`. Goes straight to apisauce so the
+   * request skips the middleware pipeline (and therefore this session). Only a
+   * 400 or 401 means the refresh token was rejected; anything else throws.
+   */
+  private defaultRefresh: RefreshTokens = async (refreshToken) => {
+    const response = await this.api.apisauce.post<AuthTokens>("auth/refresh", { refreshToken })
+    if (response.status === 400 || response.status === 401) return null
+
+    const tokens = response.data
+    if (!response.ok || !tokens?.accessToken || !tokens?.refreshToken) {
+      throw new Error(`Token refresh failed: ${response.problem ?? "malformed tokens"}`)
+    }
+    return { accessToken: tokens.accessToken, refreshToken: tokens.refreshToken }
+  }
+
+  /**
+   * Tokens used to be kept in the shared, unencrypted storage. Moves any left
+   * there into `config.storage` so updating the app doesn't sign users out.
+   */
+  private adoptSharedTokens(): AuthTokens | null {
+    const tokens = load<AuthTokens>(this.config.storageKey)
+    if (!tokens) return null
+    this.config.storage.save(this.config.storageKey, tokens)
+    remove(this.config.storageKey)
+    return tokens
+  }
+
+  private expire() {
+    this.clearTokens()
+    this.expiredListeners.forEach((listener) => listener())
+  }
+}
+
+/**
+ * Whether a request URL points at the API: relative URLs are resolved against
+ * `baseUrl`, and absolute ones have to start with it.
+ */
+function isApiUrl(url: string | undefined, baseUrl: string) {
+  if (!url || !/^([a-z][a-z\d+.-]*:)?\/\//i.test(url)) return true
+  const base = baseUrl.endsWith("/") ? baseUrl : baseUrl + "/"
+  return url === baseUrl || url.startsWith(base)
+}
+
+function withBearer(request: ApiRequestConfig, token: string) {
+  return withHeaders(request, { Authorization: `Bearer ${token}` })
+}
+
+// Singleton auth session for the shared api instance
+export const auth = new AuthSession(api)
@@ -0,0 +1,45 @@
+import type { StorageNamespace } from "@/utils/storage"
+
+/**
+ * The tokens handed out by the backend when signing in or refreshing.
+ */
+export interface AuthTokens {
+  /**
+   * Short-lived token sent as `Authorization: Bearer` with every request.
+   */
+  accessToken: string
+
+  /**
+   * Long-lived token exchanged for a new pair once the access token expires.
+   */
+  refreshToken: string
+}
+
+/**
+ * Exchanges a refresh token for a new token pair. Resolves to null when the
+ * backend rejects the refresh token, which ends the session. Rejects when the
+ * refresh couldn't be completed (offline, timeout, server error), which keeps
+ * the session so the next request can try again.
+ */
+export type RefreshTokens = (refreshToken: string) => Promise<AuthTokens | null>
+
+/**
+ * The options used to configure an `AuthSession`.
+ */
+export interface AuthConfig {
+  /**
+   * Storage key the tokens are persisted under.
+   */
+  storageKey: string
+
+  /**
+   * Where the tokens are persisted. Should be encrypted, and separate from app
+   * preferences so signing out can clear it.
+   */
+  storage: StorageNamespace
+
+  /**
+   * How to get a new token pair. Defaults to POSTing to `auth/refresh`.
+   */
+  refresh?: RefreshTokens
+}
@@ -0,0 +1,77 @@
+import { act, renderHook } from "@testing-library/react-native"
+
+import { load, save, storage } from "@/utils/storage"
+
+import { useFeatureFlag } from "./useFeatureFlag"
+import { createMockApi, MockHandler } from "../../../test/mockAdapter"
+
+import { FeatureFlagConfig, FeatureFlagStore } from "."
+
+const CONFIG: FeatureFlagConfig = {
+  url: "https://flags.example.test/flags.json",
+  storageKey: "test.featureFlags",
+  defaults: { workerColumn: true },
+}
+
+function createStore(handler: MockHandler, config = CONFIG) {
+  return new FeatureFlagStore(createMockApi(handler), config)
+}
+
+function respond(flags: unknown): MockHandler {
+  return () => ({ status: 200, data: JSON.stringify(flags) })
+}
+
+beforeEach(() => {
+  storage.clearAll()
+})
+
+describe("FeatureFlagStore", () => {
+  it("starts from the defaults", () => {
+    expect(createStore(respond({})).all).toEqual({ workerColumn: true })
+  })
+
+  it("applies, saves and announces remote values", async () => {
+    const store = createStore(respond({ workerColumn: false, unknownFlag: 1 }))
+    const listener = jest.fn()
+    store.subscribe(listener)
+
+    expect(await store.refresh()).toBe(true)
+
+    expect(store.get("workerColumn")).toBe(false)
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(load(CONFIG.storageKey)).toEqual({ workerColumn: false })
+  })
+
+  it("uses saved values on the next launch", () => {
+    save(CONFIG.storageKey, { workerColumn: false })
+    expect(createStore(respond({})).get("workerColumn")).toBe(false)
+  })
+
+  it("keeps the current values when the payload has the wrong types", async () => {
+    jest.spyOn(console, "warn").mockImplementationOnce(() => {})
+    const store = createStore(respond({ workerColumn: "no" }))
+
+    expect(await store.refresh()).toBe(false)
+    expect(store.get("workerColumn")).toBe(true)
+  })
+
+  it("doesn't fetch without an endpoint", async () => {
+    const handler = jest.fn(respond({ workerColumn: false }))
+    const store = createStore(handler, { ...CONFIG, url: null })
+
+    expect(await store.refresh()).toBe(false)
+    expect(handler).not.toHaveBeenCalled()
+  })
+})
+
+describe("useFeatureFlag", () => {
+  it("re-renders when the flag changes", async () => {
+    const store = createStore(respond({ workerColumn: false }))
+    const { result } = renderHook(() => useFeatureFlag("workerColumn", store))
+    expect(result.current).toBe(true)
+
+    await act(() => store.refresh())
+
+    expect(result.current).toBe(false)
+  })
+})
@@ -0,0 +1,147 @@
+/**
+ * Remote feature flags with local defaults.
+ *
+ * Every flag has a typed default in `Config.featureFlags`. On launch the store
+ * applies whatever the flag endpoint returned last time (saved in storage),
+ * then `refresh()` fetches the current values from `Config.FEATURE_FLAGS_URL`.
+ * The endpoint serves a JSON object of flag values; flags it leaves out keep
+ * their defaults, and unknown flags are ignored.
+ *
+ * Read flags in components with `useFeatureFlag`, which re-renders when the
+ * value changes, or anywhere else with `featureFlags.get(name)`.
+ */
+import Config from "@/config"
+import type { FeatureFlags } from "@/config/config.base"
+import { api, Api } from "@/services/api"
+import * as d from "@/utils/decoders"
+import type { Decoder } from "@/utils/decoders"
+import { load, save } from "@/utils/storage"
+
+export type FeatureFlagName = keyof FeatureFlags
+
+export interface FeatureFlagConfig {
+  /**
+   * The JSON endpoint serving flag values, or null to only use the defaults.
+   */
+  url: string | null
+
+  /**
+   * Where the last values from the endpoint are kept between launches.
+   */
+  storageKey: string
+
+  /**
+   * The value of every flag until the endpoint says otherwise.
+   */
+  defaults: FeatureFlags
+}
+
+export const DEFAULT_FEATURE_FLAG_CONFIG: FeatureFlagConfig = {
+  url: Config.FEATURE_FLAGS_URL,
+  storageKey: "featureFlags",
+  defaults: Config.featureFlags,
+}
+
+/**
+ * Holds the current flag values and tells subscribers when they change.
+ */
+export class FeatureFlagStore {
+  config: FeatureFlagConfig
+
+  private api: Api
+  private values: FeatureFlags
+  private decode: Decoder<Partial<FeatureFlags>>
+  private listeners = new Set<() => void>()
+
+  /**
+   * Starts from the defaults, overlaid with the values saved by the last refresh.
+   */
+  constructor(apiInstance: Api, config: FeatureFlagConfig = DEFAULT_FEATURE_FLAG_CONFIG) {
+    this.api = apiInstance
+    this.config = config
+    this.decode = createFlagsDecoder(config.defaults)
+
+    const saved = this.decode(load(config.storageKey))
+    this.values = { ...config.defaults, ...(saved.ok ? saved.value : {}) }
+  }
+
+  /**
+   * Every flag's current value.
+   */
+  get all(): Readonly<FeatureFlags> {
+    return this.values
+  }
+
+  get<K extends FeatureFlagName>(name: K): FeatureFlags[K] {
+    return this.values[name]
+  }
+
+  /**
+   * Fetches the flags from the endpoint, saves them for the next launch and
+   * notifies subscribers if anything changed. Keeps the current values if the
+   * request fails or the payload has a flag of the wrong type.
+   *
+   * @returns Whether fresh values were applied.
+   */
+  async refresh(): Promise<boolean> {
+    if (!this.config.url) return false
+
+    const result = await this.api.getJson(this.config.url, undefined, { decode: this.decode })
+    if (result.kind !== "ok") {
+      if (__DEV__) console.warn(`Couldn't load feature flags: ${result.kind}`, result)
+      return false
+    }
+
+    save(this.config.storageKey, result.data)
+    const next = { ...this.config.defaults, ...result.data }
+    const changed = (Object.keys(next) as FeatureFlagName[]).some(
+      (name) => next[name] !== this.values[name],
+    )
+    if (changed) {
+      this.values = next
+      this.listeners.forEach((listener) => listener())
+    }
+    return true
+  }
+
+  /**
+   * Calls `listener` whenever a flag changes.
+   *
+   * @returns A function that unsubscribes.
+   */
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
+
+/**
+ * Builds a decoder that accepts any subset of the flags, each with the same
+ * type as its default, and leaves out the ones that are missing.
+ */
+function createFlagsDecoder(defaults: FeatureFlags): Decoder<Partial<FeatureFlags>> {
+  const primitives: Record<string, Decoder<unknown>> = {
+    boolean: d.boolean,
+    number: d.number,
+    string: d.string,
+  }
+  const shape: Record<string, Decoder<unknown>> = {}
+  Object.keys(defaults).forEach((name) => {
+    shape[name] = d.optional(primitives[typeof defaults[name as FeatureFlagName]])
+  })
+  const decodeShape = d.object(shape)
+
+  return (value, path) => {
+    "worklet"
+    const result = decodeShape(value, path)
+    if (!result.ok) return result
+    const flags: Record<string, unknown> = {}
+    Object.keys(result.value).forEach((name) => {
+      if (result.value[name] !== undefined) flags[name] = result.value[name]
+    })
+    return { ok: true, value: flags as Partial<FeatureFlags> }
+  }
+}
+
+// Singleton feature flag store for the shared api instance
+export const featureFlags = new FeatureFlagStore(api)
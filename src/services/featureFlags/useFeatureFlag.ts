@@ -0,0 +1,19 @@
+import { useCallback, useSyncExternalStore } from "react"
+
+import type { FeatureFlags } from "@/config/config.base"
+
+import { featureFlags, FeatureFlagName, FeatureFlagStore } from "."
+
+/**
+ * Reads a feature flag and re-renders the component when it changes.
+ * @param {FeatureFlagName} name - The flag to read.
+ * @param {FeatureFlagStore} store - The store to read from. Defaults to the shared one.
+ * @returns {FeatureFlags[K]} - The flag's current value.
+ */
+export function useFeatureFlag<K extends FeatureFlagName>(
+  name: K,
+  store: FeatureFlagStore = featureFlags,
+): FeatureFlags[K] {
+  const getSnapshot = useCallback(() => store.get(name), [store, name])
+  return useSyncExternalStore(store.subscribe, getSnapshot)
+}
@@ -0,0 +1,90 @@
+/**
+ * Cooperative cancellation for worker pool jobs.
+ *
+ * A `CancellationToken` works much like an `AbortSignal`: create one on the JS
+ * thread, pass it to `workerPool.submit`, and call `cancel()` when the work is
+ * no longer wanted. Queued jobs are dropped straight away. Jobs that are
+ * already running can't be interrupted, so they should call
+ * `throwIfJobCancelled()` (or check `isJobCancelled()`) between chunks of work.
+ *
+ * The cancelled flag lives in a `Synchronizable`, so the worker thread sees it
+ * flip even while the JS thread is busy.
+ */
+import { createSynchronizable, Synchronizable } from "react-native-worklets"
+
+export type CancellationReason = "cancelled" | "deadline"
+
+/**
+ * Rejection reason for jobs that were cancelled or ran past their deadline.
+ */
+export class JobCancelledError extends Error {
+  reason: CancellationReason
+
+  constructor(reason: CancellationReason = "cancelled") {
+    super(reason === "deadline" ? "Job missed its deadline" : "Job was cancelled")
+    this.name = "JobCancelledError"
+    this.reason = reason
+  }
+}
+
+/**
+ * An `AbortSignal`-like handle shared between the JS thread and worker runtimes.
+ */
+export class CancellationToken {
+  /**
+   * The cross-runtime flag read by `isJobCancelled()` on the worker thread.
+   */
+  readonly flag: Synchronizable<boolean> = createSynchronizable(false)
+
+  private listeners = new Set<() => void>()
+
+  /**
+   * Whether `cancel()` has been called.
+   */
+  get isCancelled(): boolean {
+    return this.flag.getDirty()
+  }
+
+  /**
+   * Flags every job using this token as cancelled. Calling it again is a no-op.
+   */
+  cancel() {
+    if (this.isCancelled) return
+    this.flag.setBlocking(true)
+    this.listeners.forEach((listener) => listener())
+    this.listeners.clear()
+  }
+
+  /**
+   * Registers a callback for when the token is cancelled.
+   *
+   * @returns A function that removes the callback.
+   */
+  onCancel(listener: () => void): () => void {
+    this.listeners.add(listener)
+    return () => this.listeners.delete(listener)
+  }
+}
+
+/**
+ * True when the job running on this worker has been cancelled or has run past
+ * its deadline. Only meaningful inside a job submitted to a `WorkerPool`.
+ */
+export function isJobCancelled(): boolean {
+  "worklet"
+  const context = globalThis.__workerJobContext
+  if (!context) return false
+  if (context.cancelled?.getDirty()) return true
+  return context.deadline !== undefined && Date.now() > context.deadline
+}
+
+/**
+ * Bails out of the current job if it has been cancelled. Call it between
+ * chunks of long-running work.
+ */
+export function throwIfJobCancelled() {
+  "worklet"
+  if (isJobCancelled()) {
+    throw new Error("Job was cancelled")
+  }
+}
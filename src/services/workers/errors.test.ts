@@ -0,0 +1,50 @@
+import { ErrorType, reportCrash } from "@/utils/crashReporting"
+
+import { catchWorkerErrors, reportWorkerError, WorkerError } from "./errors"
+
+jest.mock("@/utils/crashReporting", () => ({
+  ...jest.requireActual("@/utils/crashReporting"),
+  reportCrash: jest.fn(),
+}))
+
+describe("worker error reporting", () => {
+  it("reports worker errors as ErrorType.WORKER", () => {
+    const error = new WorkerError({
+      message: "boom",
+      stack: "at tick (worker)",
+      jobName: "tick",
+      runtimeName: "BlogWorker",
+    })
+
+    reportWorkerError(error)
+
+    expect(error.stack).toBe("at tick (worker)")
+    expect(reportCrash).toHaveBeenCalledWith(error, ErrorType.WORKER, {
+      extra: { jobName: "tick", runtimeName: "BlogWorker" },
+    })
+  })
+
+  it("forwards exceptions from guarded worklets instead of throwing", async () => {
+    const onError = jest.fn()
+    const tick = catchWorkerErrors(
+      () => {
+        "worklet"
+        throw new Error("tick failed")
+      },
+      "tick",
+      "BlogWorker",
+      onError,
+    )
+
+    expect(() => tick()).not.toThrow()
+    await new Promise((resolve) => setTimeout(resolve, 0))
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({
+        message: "tick failed",
+        jobName: "tick",
+        runtimeName: "BlogWorker",
+      }),
+    )
+  })
+})
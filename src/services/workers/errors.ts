@@ -0,0 +1,90 @@
+/**
+ * Error reporting for code running on worker runtimes.
+ *
+ * An exception thrown on a worker thread never reaches the JS thread's error
+ * handlers, so without help it simply disappears. Jobs run through the
+ * `WorkerPool` are covered automatically. For anything else that runs on a
+ * runtime, such as initializers and timers, wrap the worklet with
+ * `catchWorkerErrors`.
+ */
+import { scheduleOnRN } from "react-native-worklets"
+
+import { ErrorType, reportCrash } from "@/utils/crashReporting"
+
+/**
+ * A worker-side exception in a form that can cross to the JS thread.
+ */
+export interface SerializedWorkerError {
+  message: string
+  stack?: string
+  /**
+   * What was running, e.g. the job's function name or "initializer".
+   */
+  jobName: string
+  runtimeName: string
+}
+
+/**
+ * An exception thrown by a worklet on a worker runtime. `stack` is the
+ * worker-side stack.
+ */
+export class WorkerError extends Error {
+  jobName: string
+  runtimeName: string
+
+  constructor({ message, stack, jobName, runtimeName }: SerializedWorkerError) {
+    super(message)
+    this.name = "WorkerError"
+    this.jobName = jobName
+    this.runtimeName = runtimeName
+    if (stack) this.stack = stack
+  }
+}
+
+/**
+ * Sends a worker error to crash reporting as `ErrorType.WORKER`.
+ */
+export function reportWorkerError(error: WorkerError) {
+  reportCrash(error, ErrorType.WORKER, {
+    extra: { jobName: error.jobName, runtimeName: error.runtimeName },
+  })
+}
+
+/**
+ * Captures an exception on a worker runtime. Must be called from a worklet.
+ */
+export function serializeWorkerError(
+  error: unknown,
+  jobName: string,
+  runtimeName: string,
+): SerializedWorkerError {
+  "worklet"
+  const e = error as Error
+  return { message: e?.message ?? String(error), stack: e?.stack, jobName, runtimeName }
+}
+
+/**
+ * Wraps a worklet so anything it throws is sent to the JS thread and reported
+ * instead of vanishing on the worker thread. The error is not rethrown.
+ *
+ * @param worklet The worklet to guard.
+ * @param jobName What the worklet does, for the report.
+ * @param runtimeName The runtime it will run on, for the report.
+ * @param onError Receives the error on the JS thread. Defaults to `reportWorkerError`.
+ */
+export function catchWorkerErrors<Args extends unknown[]>(
+  worklet: (...args: Args) => void,
+  jobName: string,
+  runtimeName: string,
+  onError: (error: WorkerError) => void = reportWorkerError,
+): (...args: Args) => void {
+  const forward = (serialized: SerializedWorkerError) => onError(new WorkerError(serialized))
+  return (...args: Args) => {
+    "worklet"
+    try {
+      worklet(...args)
+    } catch (error) {
+      scheduleOnRN(forward, serializeWorkerError(error, jobName, runtimeName))
+    }
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * A small pool of `react-native-worklets` runtimes for moving CPU-heavy work
+ * off the JS thread.
+ *
+ * Submit a worklet with `workerPool.submit(job, args, options)` and await the
+ * result. The pool spins up its runtimes lazily on first use, keeps a priority
+ * queue of jobs on the JS thread, and hands each one to a runtime according to
+ * the configured `DispatchStrategy`. Results come back through `scheduleOnRN`,
+ * so the returned Promise always settles on the JS thread.
+ *
+ * Jobs can be cancelled with a `CancellationToken` or given a deadline; see
+ * `./cancellation` for how running jobs cooperate with that. Jobs can also
+ * publish progress to the UI thread; see `./progress`.
+ */
+import { createWorkletRuntime, scheduleOnRN, scheduleOnRuntime } from "react-native-worklets"
+
+import { CancellationReason, JobCancelledError } from "./cancellation"
+import { catchWorkerErrors, reportWorkerError, WorkerError } from "./errors"
+import type {
+  JobOptions,
+  PoolWorker,
+  WorkerJob,
+  WorkerJobContext,
+  WorkerJobOutcome,
+  WorkerPoolConfig,
+  WorkerStats,
+} from "./types"
+
+/**
+ * Configuring the shared worker pool.
+ */
+export const DEFAULT_WORKER_POOL_CONFIG: WorkerPoolConfig = {
+  name: "Worker",
+  size: 2,
+  strategy: "least-busy",
+  maxJobsPerWorker: 1,
+  onError: reportWorkerError,
+}
+
+interface QueuedJob {
+  id: number
+  job: WorkerJob<any[], unknown>
+  args: unknown[]
+  options: JobOptions
+  resolve: (value: any) => void
+  reject: (reason: Error) => void
+  cleanup: () => void
+}
+
+interface RunningJob extends QueuedJob {
+  worker: PoolWorker
+}
+
+/**
+ * Runs a single job on a worker runtime and reports the outcome to the JS thread.
+ */
+function runJob(
+  job: WorkerJob<any[], unknown>,
+  args: unknown[],
+  context: WorkerJobContext,
+  id: number,
+  onSettled: (id: number, outcome: WorkerJobOutcome) => void,
+) {
+  "worklet"
+  let outcome: WorkerJobOutcome
+  globalThis.__workerJobContext = context
+  try {
+    outcome = { ok: true, value: job(...args) }
+  } catch (error) {
+    const e = error as Error
+    outcome = { ok: false, message: e?.message ?? String(error), stack: e?.stack }
+  } finally {
+    globalThis.__workerJobContext = undefined
+  }
+  scheduleOnRN(onSettled, id, outcome)
+}
+
+/**
+ * Owns a fixed set of worklet runtimes and dispatches submitted jobs to them.
+ */
+export class WorkerPool {
+  config: WorkerPoolConfig
+
+  private workers: PoolWorker[] = []
+  private queue: QueuedJob[] = []
+  private running = new Map<number, RunningJob>()
+  private nextJobId = 1
+  private cursor = 0
+
+  /**
+   * Set up the pool. Runtimes are not created until the first job is submitted.
+   */
+  constructor(config: WorkerPoolConfig = DEFAULT_WORKER_POOL_CONFIG) {
+    if (config.size < 1) throw new Error("WorkerPool size must be at least 1")
+    if (config.maxJobsPerWorker < 1)
+      throw new Error("WorkerPool maxJobsPerWorker must be at least 1")
+    this.config = config
+  }
+
+  /**
+   * Queues a worklet to run on one of the pool's runtimes.
+   *
+   * @param job The worklet to run. It must carry the `"worklet"` directive.
+   * @param args Serializable arguments passed to the worklet.
+   * @param options Priority, deadline and cancellation token for the job.
+   * @returns A Promise for the worklet's return value. Rejects with a
+   * `JobCancelledError` if the job is cancelled or misses its deadline, or with
+   * a `WorkerError` carrying the worker-side message and stack if the worklet throws.
+   */
+  submit<Args extends unknown[], Result>(
+    job: WorkerJob<Args, Result>,
+    args: Args,
+    options: JobOptions = {},
+  ): Promise<Result> {
+    const { token, deadline } = options
+    if (token?.isCancelled) return Promise.reject(new JobCancelledError("cancelled"))
+    if (deadline !== undefined && Date.now() > deadline) {
+      return Promise.reject(new JobCancelledError("deadline"))
+    }
+
+    this.start()
+    const id = this.nextJobId++
+    return new Promise<Result>((resolve, reject) => {
+      const removeListener = token?.onCancel(() => this.drop(id, "cancelled"))
+      const timer =
+        deadline !== undefined
+          ? setTimeout(() => this.drop(id, "deadline"), deadline - Date.now())
+          : undefined
+      const cleanup = () => {
+        removeListener?.()
+        if (timer) clearTimeout(timer)
+      }
+
+      this.enqueue({
+        id,
+        job: job as WorkerJob<any[], unknown>,
+        args,
+        options,
+        resolve,
+        reject,
+        cleanup,
+      })
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Drops every queued job. Running jobs are left to finish.
+   */
+  clearQueue() {
+    this.queue.splice(0).forEach((queued) => {
+      queued.cleanup()
+      queued.reject(new JobCancelledError("cancelled"))
+    })
+  }
+
+  /**
+   * The number of jobs waiting for a free runtime.
+   */
+  get queued(): number {
+    return this.queue.length
+  }
+
+  /**
+   * A snapshot of each runtime's current load.
+   */
+  get stats(): WorkerStats[] {
+    return this.workers.map(({ name, inFlight, completed }) => ({ name, inFlight, completed }))
+  }
+
+  /**
+   * Creates the runtimes if they don't exist yet.
+   */
+  private start() {
+    if (this.workers.length) return
+    const { name, size, initializer, onError } = this.config
+    for (let i = 0; i < size; i++) {
+      const workerName = `${name}-${i}`
+      this.workers.push({
+        name: workerName,
+        runtime: createWorkletRuntime({
+          name: workerName,
+          initializer:
+            initializer && onError
+              ? catchWorkerErrors(initializer, "initializer", workerName, onError)
+              : initializer,
+        }),
+        inFlight: 0,
+        completed: 0,
+      })
+    }
+  }
+
+  /**
+   * Inserts a job behind every queued job of equal or higher priority.
+   */
+  private enqueue(queued: QueuedJob) {
+    const priority = queued.options.priority ?? 0
+    const index = this.queue.findIndex((q) => (q.options.priority ?? 0) < priority)
+    if (index === -1) {
+      this.queue.push(queued)
+    } else {
+      this.queue.splice(index, 0, queued)
+    }
+  }
+
+  /**
+   * Removes a job from the queue and rejects it. Jobs that have already been
+   * handed to a runtime are left alone; they are rejected when they settle.
+   */
+  private drop(id: number, reason: CancellationReason) {
+    const index = this.queue.findIndex((q) => q.id === id)
+    if (index === -1) return
+    const [queued] = this.queue.splice(index, 1)
+    queued.cleanup()
+    queued.reject(new JobCancelledError(reason))
+  }
+
+  /**
+   * Hands queued jobs to runtimes until either the queue is empty or every
+   * runtime is at `maxJobsPerWorker`.
+   */
+  private dispatch() {
+    while (this.queue.length) {
+      const worker = this.pickWorker()
+      if (!worker) return
+
+      const queued = this.queue.shift()!
+      const { token, deadline, progress } = queued.options
+      const context: WorkerJobContext = { cancelled: token?.flag, deadline, progress }
+
+      this.running.set(queued.id, { ...queued, worker })
+      worker.inFlight++
+      scheduleOnRuntime(
+        worker.runtime,
+        runJob,
+        queued.job,
+        queued.args,
+        context,
+        queued.id,
+        this.settle,
+      )
+    }
+  }
+
+  /**
+   * Chooses the runtime for the next job according to the configured strategy.
+   */
+  private pickWorker(): PoolWorker | undefined {
+    const { strategy, maxJobsPerWorker } = this.config
+    const available = (worker: PoolWorker) => worker.inFlight < maxJobsPerWorker
+
+    if (strategy === "least-busy") {
+      return this.workers
+        .filter(available)
+        .reduce<
+          PoolWorker | undefined
+        >((best, w) => (!best || w.inFlight < best.inFlight ? w : best), undefined)
+    }
+
+    for (let i = 0; i < this.workers.length; i++) {
+      const index = (this.cursor + i) % this.workers.length
+      if (available(this.workers[index])) {
+        this.cursor = (index + 1) % this.workers.length
+        return this.workers[index]
+      }
+    }
+    return undefined
+  }
+
+  /**
+   * Called on the JS thread (via `scheduleOnRN`) when a job finishes.
+   */
+  private settle = (id: number, outcome: WorkerJobOutcome) => {
+    const running = this.running.get(id)
+    if (!running) return
+    this.running.delete(id)
+
+    running.cleanup()
+    running.worker.inFlight--
+    running.worker.completed++
+
+    const { token, deadline } = running.options
+    if (token?.isCancelled) {
+      running.reject(new JobCancelledError("cancelled"))
+    } else if (!outcome.ok && deadline !== undefined && Date.now() > deadline) {
+      running.reject(new JobCancelledError("deadline"))
+    } else if (outcome.ok) {
+      running.resolve(outcome.value)
+    } else {
+      const error = new WorkerError({
+        message: outcome.message,
+        stack: outcome.stack,
+        jobName: running.options.name ?? (running.job.name || "anonymous"),
+        runtimeName: running.worker.name,
+      })
+      this.config.onError?.(error)
+      running.reject(error)
+    }
+
+    this.dispatch()
+  }
+}
+
+// Singleton worker pool for convenience
+export const workerPool = new WorkerPool()
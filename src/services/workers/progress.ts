@@ -0,0 +1,46 @@
+/**
+ * Progress reporting from worker jobs.
+ *
+ * Create a channel on the JS thread, pass it to `workerPool.submit` as the
+ * `progress` option, and call `reportJobProgress()` from inside the job. The
+ * channel is a `Synchronizable`, so the UI thread can poll it every frame with
+ * `getDirty()` (see `ProgressBar`) and keep a progress indicator moving even
+ * while the JS thread is jammed.
+ */
+import { createSynchronizable } from "react-native-worklets"
+
+import type { JobProgress, ProgressChannel } from "./types"
+
+export const INITIAL_PROGRESS: JobProgress<never> = { fraction: 0, stage: null, partial: null }
+
+/**
+ * Creates an empty progress channel.
+ */
+export function createProgressChannel<TPartial = unknown>(): ProgressChannel<TPartial> {
+  return createSynchronizable<JobProgress<TPartial>>(INITIAL_PROGRESS)
+}
+
+/**
+ * Publishes progress for the job running on this worker. Fields left out of
+ * `update` keep their previous value. Does nothing if the job was submitted
+ * without a `progress` channel.
+ *
+ * @param update The new fraction (clamped to 0..1), stage name and/or partial result.
+ */
+export function reportJobProgress<TPartial = unknown>(update: Partial<JobProgress<TPartial>>) {
+  "worklet"
+  const channel = globalThis.__workerJobContext?.progress
+  if (!channel) return
+  channel.setBlocking((prev) => ({
+    fraction: Math.min(1, Math.max(0, update.fraction ?? prev.fraction)),
+    stage: update.stage !== undefined ? update.stage : prev.stage,
+    partial: update.partial !== undefined ? update.partial : prev.partial,
+  }))
+}
+
+/**
+ * Puts a channel back to its initial state, e.g. before reusing it for another job.
+ */
+export function resetProgress(channel: ProgressChannel<any>) {
+  channel.setBlocking(INITIAL_PROGRESS)
+}
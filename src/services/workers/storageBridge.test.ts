@@ -0,0 +1,51 @@
+import { remove, save, storage } from "@/utils/storage"
+
+import { StorageBridge } from "./storageBridge"
+
+describe("StorageBridge", () => {
+  let bridge: StorageBridge
+
+  beforeEach(() => {
+    storage.clearAll()
+    bridge = new StorageBridge()
+  })
+
+  afterEach(() => {
+    bridge.releaseAll()
+  })
+
+  it("mirrors the stored value, or the default", () => {
+    save("settings.units", "metric")
+
+    expect(bridge.mirror("settings.units", "imperial").getDirty()).toBe("metric")
+    expect(bridge.mirror("settings.limit", 10).getDirty()).toBe(10)
+  })
+
+  it("follows writes after the mirror is created", () => {
+    const limit = bridge.mirror("settings.limit", 10)
+
+    save("settings.limit", 25)
+    expect(limit.getDirty()).toBe(25)
+
+    remove("settings.limit")
+    expect(limit.getDirty()).toBe(10)
+
+    save("settings.limit", 5)
+    storage.clearAll()
+    expect(limit.getDirty()).toBe(10)
+  })
+
+  it("shares one mirror per key", () => {
+    expect(bridge.mirror("settings.limit", 10)).toBe(bridge.mirror("settings.limit", 10))
+    expect(bridge.keys).toEqual(["settings.limit"])
+  })
+
+  it("stops following a key once released", () => {
+    const limit = bridge.mirror("settings.limit", 10)
+    bridge.release("settings.limit")
+
+    save("settings.limit", 25)
+    expect(limit.getDirty()).toBe(10)
+    expect(bridge.keys).toEqual([])
+  })
+})
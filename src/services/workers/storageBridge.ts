@@ -0,0 +1,90 @@
+/**
+ * Storage for worker runtimes.
+ *
+ * Storage is only reachable from the JS thread, so worklets on a worker runtime
+ * can't read settings from it, and values captured in a worklet's closure are
+ * frozen when the runtime is created. A `StorageBridge` mirrors selected keys
+ * into `Synchronizable`s, which every runtime can read, and updates a mirror
+ * whenever its key is saved, removed or cleared.
+ *
+ * Mirrors are read-mostly: change the setting through storage on the JS thread
+ * (`save`, `useStoredState`, ...). A value set on the mirror itself is not
+ * saved, and is overwritten by the next write to the key.
+ */
+import { createSynchronizable } from "react-native-worklets"
+import type { Synchronizable } from "react-native-worklets"
+
+import { loadString, subscribe } from "@/utils/storage"
+
+import type { StorageMirror } from "./types"
+
+interface Mirror {
+  synchronizable: Synchronizable<unknown>
+  unsubscribe: () => void
+}
+
+/**
+ * Keeps a mirror of each requested storage key for worker runtimes.
+ */
+export class StorageBridge {
+  private mirrors = new Map<string, Mirror>()
+
+  /**
+   * The mirror of `key`, created and kept in sync from the first call on.
+   * Pass the same default as everywhere else the key is read, e.g.
+   * `useStoredState`. Capture the mirror in the worklet and read it with
+   * `getDirty()` each time the setting is needed.
+   *
+   * @param key The storage key to mirror. Its value is stored as JSON.
+   * @param defaultValue Used while nothing (or nothing parseable) is stored.
+   */
+  mirror<T>(key: string, defaultValue: T): StorageMirror<T> {
+    const existing = this.mirrors.get(key)
+    if (existing) return existing.synchronizable as StorageMirror<T>
+
+    const synchronizable = createSynchronizable<T>(read(key, defaultValue))
+    const unsubscribe = subscribe(key, () => {
+      synchronizable.setBlocking(read(key, defaultValue))
+    })
+    this.mirrors.set(key, {
+      synchronizable: synchronizable as Synchronizable<unknown>,
+      unsubscribe,
+    })
+    return synchronizable
+  }
+
+  /**
+   * The keys currently mirrored.
+   */
+  get keys(): string[] {
+    return [...this.mirrors.keys()]
+  }
+
+  /**
+   * Stops updating the mirror of `key`. Worklets holding it keep the last value.
+   */
+  release(key: string) {
+    this.mirrors.get(key)?.unsubscribe()
+    this.mirrors.delete(key)
+  }
+
+  /**
+   * Stops updating every mirror.
+   */
+  releaseAll() {
+    this.keys.forEach((key) => this.release(key))
+  }
+}
+
+function read<T>(key: string, defaultValue: T): T {
+  const raw = loadString(key)
+  if (raw === null) return defaultValue
+  try {
+    return JSON.parse(raw)
+  } catch {
+    return defaultValue
+  }
+}
+
+// Singleton storage bridge for the shared storage
+export const storageBridge = new StorageBridge()
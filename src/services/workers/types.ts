@@ -0,0 +1,164 @@
+import type { Synchronizable, WorkletRuntime } from "react-native-worklets"
+
+import type { CancellationToken } from "./cancellation"
+import type { WorkerError } from "./errors"
+
+/**
+ * How the pool picks a runtime for the next queued job.
+ *
+ *  - "round-robin" rotates through the runtimes in order, skipping any that are full.
+ *  - "least-busy" picks the runtime with the fewest jobs in flight.
+ */
+export type DispatchStrategy = "round-robin" | "least-busy"
+
+/**
+ * The options used to configure a worker pool.
+ */
+export interface WorkerPoolConfig {
+  /**
+   * Prefix for the runtime names. Runtimes are named `${name}-0`, `${name}-1`, ...
+   * and show up under those names in the debugger's device list.
+   */
+  name: string
+
+  /**
+   * How many worklet runtimes (and therefore background threads) to create.
+   */
+  size: number
+
+  /**
+   * How jobs are spread across the runtimes.
+   */
+  strategy: DispatchStrategy
+
+  /**
+   * How many jobs may be scheduled on a single runtime at once. Anything beyond
+   * this waits in the pool's queue on the JS thread.
+   */
+  maxJobsPerWorker: number
+
+  /**
+   * An optional worklet run once on every runtime right after it is created.
+   */
+  initializer?: () => void
+
+  /**
+   * Called on the JS thread with every exception thrown on the pool's runtimes:
+   * by the initializer, or by a job (which is also rejected with it). Jobs
+   * that are cancelled or miss their deadline don't count.
+   */
+  onError?: (error: WorkerError) => void
+}
+
+/**
+ * A worklet that can be submitted to the pool. It runs on a worker runtime,
+ * so it must be marked with the `"worklet"` directive and only close over
+ * serializable values.
+ */
+export type WorkerJob<Args extends unknown[], Result> = (...args: Args) => Result
+
+/**
+ * Per-job scheduling options.
+ */
+export interface JobOptions {
+  /**
+   * What the job is called in error reports. Defaults to the worklet's function name.
+   */
+  name?: string
+
+  /**
+   * Higher runs first. Jobs with the same priority run in submission order.
+   * Defaults to 0.
+   */
+  priority?: number
+
+  /**
+   * Epoch milliseconds after which the result is no longer wanted. A job still
+   * queued at that point is dropped; a running job sees `isJobCancelled()` flip.
+   */
+  deadline?: number
+
+  /**
+   * Cancels the job when the token is cancelled.
+   */
+  token?: CancellationToken
+
+  /**
+   * Receives the job's `reportJobProgress()` updates.
+   */
+  progress?: ProgressChannel<any>
+}
+
+/**
+ * A progress snapshot published by a running job.
+ */
+export interface JobProgress<TPartial = unknown> {
+  /**
+   * How far along the job is, from 0 to 1.
+   */
+  fraction: number
+
+  /**
+   * A short name for what the job is doing right now, e.g. "parsing".
+   */
+  stage: string | null
+
+  /**
+   * Whatever the job has produced so far, if it streams results.
+   */
+  partial: TPartial | null
+}
+
+/**
+ * A cross-runtime mailbox holding a job's latest progress. Written on the
+ * worker thread and read from the UI or JS thread with `getDirty()`.
+ */
+export type ProgressChannel<TPartial = unknown> = Synchronizable<JobProgress<TPartial>>
+
+/**
+ * A cross-runtime copy of a storage key's value, kept up to date by a
+ * `StorageBridge`. Worklets read it with `getDirty()`; only storage writes on
+ * the JS thread should change it.
+ */
+export type StorageMirror<T> = Synchronizable<T>
+
+/**
+ * What a worker runtime knows about the job it is currently running. Set by
+ * the pool right before the job starts and cleared once it returns.
+ */
+export interface WorkerJobContext {
+  cancelled?: Synchronizable<boolean>
+  deadline?: number
+  progress?: ProgressChannel<any>
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var __workerJobContext: WorkerJobContext | undefined
+}
+
+/**
+ * What a job reports back to the JS thread once it has finished.
+ */
+export type WorkerJobOutcome =
+  | { ok: true; value: unknown }
+  | { ok: false; message: string; stack?: string }
+
+/**
+ * A single runtime owned by the pool, plus its bookkeeping.
+ */
+export interface PoolWorker {
+  name: string
+  runtime: WorkletRuntime
+  inFlight: number
+  completed: number
+}
+
+/**
+ * A snapshot of one runtime's load, as returned by `WorkerPool.stats`.
+ */
+export interface WorkerStats {
+  name: string
+  inFlight: number
+  completed: number
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react"
+
+import { CancellationToken } from "./cancellation"
+
+/**
+ * Provides a `CancellationToken` that is cancelled when the component unmounts,
+ * so any worker jobs submitted with it are dropped once the user leaves the screen.
+ * @returns {CancellationToken} - A token scoped to the component's lifetime.
+ */
+export function useCancellationToken(): CancellationToken {
+  const [token, setToken] = useState(() => new CancellationToken())
+
+  useEffect(() => {
+    // Effects can be torn down and re-run without a real unmount (e.g. StrictMode),
+    // in which case we need a fresh token rather than the one we just cancelled.
+    if (token.isCancelled) setToken(new CancellationToken())
+    return () => token.cancel()
+  }, [token])
+
+  return token
+}
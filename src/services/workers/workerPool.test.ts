@@ -0,0 +1,233 @@
+import { createWorkletRuntime } from "react-native-worklets"
+
+import { CancellationToken, JobCancelledError, throwIfJobCancelled } from "./cancellation"
+import { WorkerError } from "./errors"
+import { createProgressChannel, reportJobProgress } from "./progress"
+
+import { WorkerPool } from "."
+
+const double = (n: number) => {
+  "worklet"
+  return n * 2
+}
+
+const explode = () => {
+  "worklet"
+  throw new Error("boom")
+}
+
+const checkIn = () => {
+  "worklet"
+  throwIfJobCancelled()
+  return "finished"
+}
+
+const countTo = (n: number) => {
+  "worklet"
+  const seen: number[] = []
+  for (let i = 1; i <= n; i++) {
+    seen.push(i)
+    reportJobProgress({ fraction: i / n, stage: "counting", partial: seen.slice() })
+  }
+  return seen.length
+}
+
+describe("WorkerPool", () => {
+  beforeEach(() => {
+    jest.mocked(createWorkletRuntime).mockClear()
+  })
+
+  it("creates its runtimes lazily", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 3,
+      strategy: "round-robin",
+      maxJobsPerWorker: 1,
+    })
+    expect(createWorkletRuntime).not.toHaveBeenCalled()
+
+    await pool.submit(double, [1])
+    expect(createWorkletRuntime).toHaveBeenCalledTimes(3)
+    expect(pool.stats.map((s) => s.name)).toEqual(["Test-0", "Test-1", "Test-2"])
+  })
+
+  it("resolves with the worklet's return value", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    await expect(pool.submit(double, [21])).resolves.toBe(42)
+  })
+
+  it("rejects with the worker-side error", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    await expect(pool.submit(explode, [])).rejects.toThrow("boom")
+    await expect(pool.submit(double, [2])).resolves.toBe(4)
+  })
+
+  it("passes worker errors with the job and runtime names to onError", async () => {
+    const onError = jest.fn()
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+      onError,
+    })
+
+    await expect(pool.submit(explode, [], { name: "explode-job" })).rejects.toBeInstanceOf(
+      WorkerError,
+    )
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "boom", jobName: "explode-job", runtimeName: "Test-0" }),
+    )
+  })
+
+  it("reports errors thrown by the initializer", async () => {
+    const onError = jest.fn()
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+      initializer: explode,
+      onError,
+    })
+
+    await pool.submit(double, [1])
+
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: "boom", jobName: "initializer", runtimeName: "Test-0" }),
+    )
+  })
+
+  it("queues jobs beyond maxJobsPerWorker", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 2,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    const results = Promise.all([1, 2, 3, 4, 5].map((n) => pool.submit(double, [n])))
+    expect(pool.queued).toBe(3)
+    expect(pool.stats.map((s) => s.inFlight)).toEqual([1, 1])
+
+    await expect(results).resolves.toEqual([2, 4, 6, 8, 10])
+    expect(pool.queued).toBe(0)
+    expect(pool.stats.reduce((sum, s) => sum + s.completed, 0)).toBe(5)
+  })
+
+  it("rotates through runtimes in round-robin mode", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 3,
+      strategy: "round-robin",
+      maxJobsPerWorker: 2,
+    })
+    const results = Promise.all([1, 2, 3, 4].map((n) => pool.submit(double, [n])))
+    expect(pool.stats.map((s) => s.inFlight)).toEqual([2, 1, 1])
+
+    await results
+    expect(pool.stats.map((s) => s.completed)).toEqual([2, 1, 1])
+  })
+
+  it("runs higher priority jobs first", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    const order: number[] = []
+    const track = (n: number) => pool.submit(double, [n], { priority: n }).then(() => order.push(n))
+
+    await Promise.all([track(0), track(1), track(5), track(1), track(3)])
+    expect(order).toEqual([0, 5, 3, 1, 1])
+  })
+
+  it("drops queued jobs when their token is cancelled", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    const token = new CancellationToken()
+    const first = pool.submit(double, [1])
+    const second = pool.submit(double, [2], { token })
+
+    token.cancel()
+    expect(pool.queued).toBe(0)
+    await expect(first).resolves.toBe(2)
+    await expect(second).rejects.toBeInstanceOf(JobCancelledError)
+    await expect(pool.submit(double, [3], { token })).rejects.toThrow("Job was cancelled")
+  })
+
+  it("lets running jobs observe cancellation", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    const token = new CancellationToken()
+    const running = pool.submit(checkIn, [], { token })
+
+    // The job has been handed to the runtime but hasn't started yet.
+    expect(pool.stats[0].inFlight).toBe(1)
+    token.cancel()
+    await expect(running).rejects.toMatchObject({ reason: "cancelled" })
+  })
+
+  it("rejects jobs that miss their deadline", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    await expect(pool.submit(checkIn, [], { deadline: Date.now() - 1 })).rejects.toMatchObject({
+      reason: "deadline",
+    })
+
+    jest.useFakeTimers({ doNotFake: ["queueMicrotask"] })
+    const first = pool.submit(double, [1])
+    const late = pool.submit(double, [2], { deadline: Date.now() + 100 })
+    jest.advanceTimersByTime(200)
+    jest.useRealTimers()
+
+    await expect(late).rejects.toMatchObject({ reason: "deadline" })
+    await expect(first).resolves.toBe(2)
+  })
+
+  it("publishes job progress through the channel", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    const progress = createProgressChannel<number[]>()
+    expect(progress.getDirty()).toEqual({ fraction: 0, stage: null, partial: null })
+
+    await expect(pool.submit(countTo, [4], { progress })).resolves.toBe(4)
+    expect(progress.getDirty()).toEqual({ fraction: 1, stage: "counting", partial: [1, 2, 3, 4] })
+  })
+
+  it("ignores progress reports from jobs without a channel", async () => {
+    const pool = new WorkerPool({
+      name: "Test",
+      size: 1,
+      strategy: "least-busy",
+      maxJobsPerWorker: 1,
+    })
+    await expect(pool.submit(countTo, [2])).resolves.toBe(2)
+  })
+})
@@ -15,6 +15,7 @@ import {
 } from "@react-navigation/native"
 import { useMMKVString } from "react-native-mmkv"
 
+import { addBreadcrumb } from "@/utils/crashReporting"
 import { storage } from "@/utils/storage"
 
 import { setImperativeTheming } from "./context.utils"
@@ -105,6 +106,10 @@ export const ThemeProvider: FC<PropsWithChildren<ThemeProviderProps>> = ({
     setImperativeTheming(theme)
   }, [theme])
 
+  useEffect(() => {
+    addBreadcrumb("theme", `Theme is ${themeContext}`, { override: themeScheme ?? "system" })
+  }, [themeContext, themeScheme])
+
   const themed = useCallback(
     <T,>(styleOrStyleFn: AllowedStylesT<T>) => {
       const flatStyles = [styleOrStyleFn].flat(3) as (ThemedStyle<T> | StyleProp<T>)[]
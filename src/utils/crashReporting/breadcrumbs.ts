@@ -0,0 +1,97 @@
+/**
+ * Breadcrumbs are short notes about what the app was doing, attached to crash
+ * reports so we can see the steps that led up to an error.
+ *
+ * The app records them for navigation, `Api` requests and responses, `Button`
+ * presses, and theme and locale changes. Only the most recent
+ * `MAX_BREADCRUMBS` are kept. When a fatal error happens the trail is also
+ * saved to storage, because the app may not live long enough to deliver the
+ * report; the saved trail then rides along with the next report, even if that
+ * is in the next session.
+ */
+import { load, remove, save } from "@/utils/storage"
+
+export interface Breadcrumb {
+  /**
+   * Where the breadcrumb came from, e.g. "navigation" or "api".
+   */
+  category: string
+  message: string
+  timestamp: number
+  data?: Record<string, unknown>
+}
+
+/**
+ * How many breadcrumbs are kept. Older ones are overwritten first.
+ */
+export const MAX_BREADCRUMBS = 50
+
+export const PERSISTED_BREADCRUMBS_KEY = "crashReporting.breadcrumbs"
+
+/**
+ * A fixed-size buffer that overwrites its oldest item once full, so recording
+ * a breadcrumb never allocates or shifts the array.
+ */
+class RingBuffer<T> {
+  private items: T[] = []
+  private start = 0
+
+  constructor(private capacity: number) {}
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item)
+    } else {
+      this.items[this.start] = item
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  /**
+   * The items, oldest first.
+   */
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)]
+  }
+
+  clear() {
+    this.items = []
+    this.start = 0
+  }
+}
+
+const trail = new RingBuffer<Breadcrumb>(MAX_BREADCRUMBS)
+
+/**
+ * Records a breadcrumb.
+ */
+export function addBreadcrumb(category: string, message: string, data?: Record<string, unknown>) {
+  trail.push({ category, message, timestamp: Date.now(), data })
+}
+
+/**
+ * The recorded breadcrumbs, oldest first.
+ */
+export function getBreadcrumbs(): Breadcrumb[] {
+  return trail.toArray()
+}
+
+export function clearBreadcrumbs() {
+  trail.clear()
+}
+
+/**
+ * Saves the current trail so it survives the app going down.
+ */
+export function persistBreadcrumbs() {
+  save(PERSISTED_BREADCRUMBS_KEY, trail.toArray())
+}
+
+/**
+ * Returns the trail saved by `persistBreadcrumbs`, if any, and forgets it.
+ */
+export function takePersistedBreadcrumbs(): Breadcrumb[] | null {
+  const saved = load<Breadcrumb[]>(PERSISTED_BREADCRUMBS_KEY)
+  if (saved) remove(PERSISTED_BREADCRUMBS_KEY)
+  return saved
+}
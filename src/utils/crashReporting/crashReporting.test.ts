@@ -0,0 +1,122 @@
+import { storage } from "@/utils/storage"
+
+import { clearBreadcrumbs, MAX_BREADCRUMBS, PERSISTED_BREADCRUMBS_KEY } from "./breadcrumbs"
+
+import {
+  addBreadcrumb,
+  CrashReport,
+  getBreadcrumbs,
+  CrashReporter,
+  ErrorType,
+  httpReporter,
+  initCrashReporting,
+  loadCrashLog,
+  reportCrash,
+  storageReporter,
+} from "."
+
+function memoryReporter(): CrashReporter & { reports: CrashReport[] } {
+  const reports: CrashReport[] = []
+  return { name: "memory", reports, report: (report) => void reports.push(report) }
+}
+
+beforeEach(() => {
+  storage.clearAll()
+  clearBreadcrumbs()
+})
+
+describe("reportCrash", () => {
+  it("sends the error, breadcrumbs and context to every reporter", () => {
+    const first = memoryReporter()
+    const second = memoryReporter()
+    initCrashReporting([first, second])
+    addBreadcrumb("navigation", "/settings")
+
+    reportCrash(new Error("boom"), ErrorType.HANDLED, { componentStack: "in Settings" })
+
+    expect(first.reports).toEqual(second.reports)
+    expect(first.reports[0]).toMatchObject({
+      error: { name: "Error", message: "boom" },
+      type: ErrorType.HANDLED,
+      componentStack: "in Settings",
+      breadcrumbs: [{ category: "navigation", message: "/settings" }],
+    })
+  })
+
+  it("keeps going when a reporter throws", () => {
+    jest.spyOn(console, "warn").mockImplementationOnce(() => {})
+    const broken: CrashReporter = {
+      name: "broken",
+      report: () => {
+        throw new Error("reporter down")
+      },
+    }
+    const working = memoryReporter()
+    initCrashReporting([broken, working])
+
+    reportCrash(new Error("boom"))
+
+    expect(working.reports).toHaveLength(1)
+  })
+})
+
+describe("breadcrumbs", () => {
+  it("keeps only the most recent ones, oldest first", () => {
+    for (let i = 0; i < MAX_BREADCRUMBS + 5; i++) addBreadcrumb("test", `${i}`)
+
+    const trail = getBreadcrumbs().map((b) => b.message)
+    expect(trail).toHaveLength(MAX_BREADCRUMBS)
+    expect(trail[0]).toBe("5")
+    expect(trail[MAX_BREADCRUMBS - 1]).toBe(`${MAX_BREADCRUMBS + 4}`)
+  })
+
+  it("saves the trail on fatal errors and attaches it to the next report only", () => {
+    const reporter = memoryReporter()
+    initCrashReporting([reporter])
+    addBreadcrumb("navigation", "/checkout")
+
+    reportCrash(new Error("fatal"), ErrorType.FATAL)
+    expect(storage.contains(PERSISTED_BREADCRUMBS_KEY)).toBe(true)
+
+    // As if the app restarted
+    clearBreadcrumbs()
+    reportCrash(new Error("next"), ErrorType.HANDLED)
+    reportCrash(new Error("after"), ErrorType.HANDLED)
+
+    expect(reporter.reports[0].previousBreadcrumbs).toBeUndefined()
+    expect(reporter.reports[1].previousBreadcrumbs).toMatchObject([{ message: "/checkout" }])
+    expect(reporter.reports[2].previousBreadcrumbs).toBeUndefined()
+  })
+})
+
+describe("storageReporter", () => {
+  it("keeps the most recent reports", () => {
+    initCrashReporting([storageReporter("test.crashes", 2)])
+
+    reportCrash(new Error("one"))
+    reportCrash(new Error("two"))
+    reportCrash(new Error("three"))
+
+    expect(loadCrashLog("test.crashes").map((r) => r.error.message)).toEqual(["two", "three"])
+  })
+})
+
+describe("httpReporter", () => {
+  it("POSTs the report as JSON", async () => {
+    const fetchMock = jest
+      .spyOn(global, "fetch")
+      .mockResolvedValue({ ok: true, status: 200 } as Response)
+
+    const reporter = memoryReporter()
+    initCrashReporting([reporter])
+    reportCrash(new Error("boom"))
+    await httpReporter("http://localhost:3000/crashes").report(reporter.reports[0])
+
+    expect(fetchMock).toHaveBeenCalledWith("http://localhost:3000/crashes", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(reporter.reports[0]),
+    })
+    fetchMock.mockRestore()
+  })
+})
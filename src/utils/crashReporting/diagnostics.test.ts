@@ -0,0 +1,78 @@
+import { Share } from "react-native"
+
+import { addBreadcrumb, clearBreadcrumbs } from "./breadcrumbs"
+import {
+  buildDiagnosticReport,
+  redactText,
+  serializeDiagnosticReport,
+  shareDiagnostics,
+} from "./diagnostics"
+
+const context = {
+  error: new Error("Could not load jane@example.com"),
+  componentStack: "\n    in Feed\n    in App\n",
+  locale: "fr",
+  theme: "dark",
+}
+
+beforeEach(() => {
+  clearBreadcrumbs()
+})
+
+describe("buildDiagnosticReport", () => {
+  it("collects the app state, breadcrumbs and component stack", () => {
+    addBreadcrumb("navigation", "Navigated to /feed")
+
+    const report = buildDiagnosticReport(context)
+
+    expect(report).toMatchObject({
+      appVersion: "1.0.0",
+      locale: "fr",
+      theme: "dark",
+      environment: "staging",
+      error: { name: "Error", message: "Could not load jane@example.com" },
+      componentStack: "in Feed\n    in App",
+      breadcrumbs: [{ category: "navigation", message: "Navigated to /feed" }],
+    })
+  })
+})
+
+describe("redactText", () => {
+  it("masks emails, query values and tokens", () => {
+    expect(redactText("GET https://x.dev/feed?user=jane&page=2#top")).toBe(
+      "GET https://x.dev/feed?user=[redacted]&page=[redacted]#top",
+    )
+    expect(redactText("Signed in as jane.doe+test@example.co.uk")).toBe("Signed in as [email]")
+    expect(redactText("Bearer eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiIxIn0.sig")).toBe(
+      "Bearer [token]",
+    )
+    expect(redactText("Navigated to /episodes/42")).toBe("Navigated to /episodes/42")
+  })
+})
+
+describe("serializeDiagnosticReport", () => {
+  it("redacts messages and drops breadcrumb data when asked", () => {
+    addBreadcrumb("api", "GET feed?q=secret", { status: 200 })
+    const report = buildDiagnosticReport(context)
+
+    const redacted = JSON.parse(serializeDiagnosticReport(report, { redact: true }))
+    expect(redacted.error.message).toBe("Could not load [email]")
+    expect(redacted.breadcrumbs).toEqual([
+      { category: "api", message: "GET feed?q=[redacted]", timestamp: expect.any(Number) },
+    ])
+
+    expect(JSON.parse(serializeDiagnosticReport(report))).toEqual(report)
+  })
+})
+
+describe("shareDiagnostics", () => {
+  it("hands the JSON to the share sheet", async () => {
+    const share = jest.spyOn(Share, "share").mockResolvedValue({ action: Share.sharedAction })
+
+    const report = buildDiagnosticReport(context)
+    await shareDiagnostics(report, { redact: true })
+
+    expect(JSON.parse(share.mock.calls[0][0].message!).error.message).toBe("Could not load [email]")
+    share.mockRestore()
+  })
+})
@@ -0,0 +1,124 @@
+/**
+ * A diagnostics bundle is everything support needs to make sense of an error,
+ * as JSON a tester can paste into a ticket instead of sending a screenshot.
+ *
+ * There is no clipboard or file system module in this app, so
+ * `shareDiagnostics` hands the JSON to the system share sheet, which offers
+ * both "Copy" and saving to a file.
+ */
+import { Platform, Share } from "react-native"
+
+import Config from "@/config"
+
+import { Breadcrumb, getBreadcrumbs } from "./breadcrumbs"
+import appConfig from "../../../app.json"
+
+export interface DiagnosticReport {
+  appVersion: string
+  platform: string
+  locale: string
+  theme: string
+  environment: string
+  timestamp: number
+  error: { name: string; message: string; stack?: string }
+  componentStack?: string
+  breadcrumbs: Breadcrumb[]
+}
+
+/**
+ * What the caller knows that this module can't look up on its own.
+ */
+export interface DiagnosticContext {
+  error: Error
+  componentStack?: string | null
+  locale: string
+  theme: string
+}
+
+export interface DiagnosticOptions {
+  /**
+   * Mask email addresses, URL query values and token-like strings, and drop
+   * breadcrumb data.
+   */
+  redact?: boolean
+}
+
+/**
+ * Gathers a diagnostics bundle for an error, including the current breadcrumbs.
+ */
+export function buildDiagnosticReport({
+  error,
+  componentStack,
+  locale,
+  theme,
+}: DiagnosticContext): DiagnosticReport {
+  return {
+    appVersion: appConfig.version,
+    platform: `${Platform.OS} ${Platform.Version}`,
+    locale,
+    theme,
+    environment: Config.ENVIRONMENT,
+    timestamp: Date.now(),
+    error: { name: error.name, message: error.message, stack: error.stack },
+    componentStack: componentStack?.trim() || undefined,
+    breadcrumbs: getBreadcrumbs(),
+  }
+}
+
+const EMAIL = /[\w.+-]+@[\w-]+(\.[\w-]+)+/g
+const QUERY_VALUE = /([?&][^=&\s#]+=)[^&\s#]*/g
+// Long unbroken runs of letters and digits, such as API keys and JWTs.
+const TOKEN = /\b[A-Za-z0-9_-]{32,}(\.[A-Za-z0-9_-]+)*\b/g
+
+/**
+ * Masks anything in `text` that looks like personal data or a secret.
+ */
+export function redactText(text: string): string {
+  return text
+    .replace(EMAIL, "[email]")
+    .replace(QUERY_VALUE, "$1[redacted]")
+    .replace(TOKEN, "[token]")
+}
+
+/**
+ * A copy of `report` with personal data and secrets masked. Breadcrumb `data`
+ * is dropped entirely, as there's no telling what a caller put in it.
+ */
+export function redactDiagnosticReport(report: DiagnosticReport): DiagnosticReport {
+  const redactOptional = (text?: string) => (text === undefined ? undefined : redactText(text))
+  return {
+    ...report,
+    error: {
+      name: report.error.name,
+      message: redactText(report.error.message),
+      stack: redactOptional(report.error.stack),
+    },
+    componentStack: redactOptional(report.componentStack),
+    breadcrumbs: report.breadcrumbs.map(({ category, message, timestamp }) => ({
+      category,
+      message: redactText(message),
+      timestamp,
+    })),
+  }
+}
+
+/**
+ * The report as indented JSON, redacted if asked.
+ */
+export function serializeDiagnosticReport(
+  report: DiagnosticReport,
+  { redact = false }: DiagnosticOptions = {},
+): string {
+  return JSON.stringify(redact ? redactDiagnosticReport(report) : report, null, 2)
+}
+
+/**
+ * Opens the share sheet with the report as JSON, so it can be copied or saved.
+ * Resolves once the sheet is closed.
+ */
+export async function shareDiagnostics(report: DiagnosticReport, options?: DiagnosticOptions) {
+  await Share.share({
+    title: `Diagnostics ${new Date(report.timestamp).toISOString()}`,
+    message: serializeDiagnosticReport(report, options),
+  })
+}
@@ -0,0 +1,115 @@
+/**
+ * If you're using Sentry
+ *   Expo https://docs.expo.dev/guides/using-sentry/
+ */
+// import * as Sentry from "@sentry/react-native"
+
+/**
+ * If you're using Crashlytics: https://rnfirebase.io/crashlytics/usage
+ */
+// import crashlytics from "@react-native-firebase/crashlytics"
+
+/**
+ * If you're using Bugsnag:
+ *   RN   https://docs.bugsnag.com/platforms/react-native/)
+ *   Expo https://docs.bugsnag.com/platforms/react-native/expo/
+ */
+// import Bugsnag from "@bugsnag/react-native"
+// import Bugsnag from "@bugsnag/expo"
+
+import Config from "@/config"
+
+import { getBreadcrumbs, persistBreadcrumbs, takePersistedBreadcrumbs } from "./breadcrumbs"
+import { consoleReporter, httpReporter, storageReporter } from "./reporters"
+import { ErrorType } from "./types"
+import type { CrashContext, CrashReport, CrashReporter } from "./types"
+
+export { addBreadcrumb, getBreadcrumbs } from "./breadcrumbs"
+export type { Breadcrumb } from "./breadcrumbs"
+export {
+  buildDiagnosticReport,
+  redactDiagnosticReport,
+  serializeDiagnosticReport,
+  shareDiagnostics,
+} from "./diagnostics"
+export type { DiagnosticContext, DiagnosticOptions, DiagnosticReport } from "./diagnostics"
+export { consoleReporter, httpReporter, loadCrashLog, storageReporter } from "./reporters"
+export { ErrorType } from "./types"
+export type { CrashContext, CrashReport, CrashReporter } from "./types"
+
+let reporters: CrashReporter[] = [consoleReporter]
+let globalHandlerInstalled = false
+
+/**
+ * The reporters used when `initCrashReporting` is called without any: the
+ * console in dev, a log in storage in production, plus `Config.CRASH_REPORT_URL`
+ * if the environment has one.
+ */
+export function getDefaultReporters(): CrashReporter[] {
+  const defaults = [__DEV__ ? consoleReporter : storageReporter()]
+  if (Config.CRASH_REPORT_URL) defaults.push(httpReporter(Config.CRASH_REPORT_URL))
+  return defaults
+}
+
+/**
+ *  This is where you put your crash reporting service initialization code to
+ *  call in `src/app/_layout.tsx`. It sets the reporters crashes go to, and
+ *  reports errors thrown outside of rendering (timers, promise callbacks, event
+ *  handlers) that no `ErrorBoundary` can catch.
+ */
+export const initCrashReporting = (crashReporters: CrashReporter[] = getDefaultReporters()) => {
+  // Sentry.init({
+  //   dsn: "YOUR DSN HERE",
+  //   debug: true, // If `true`, Sentry will try to print out useful debugging information if something goes wrong with sending the event. Set it to `false` in production
+  // })
+  // Bugsnag.start("YOUR API KEY")
+  reporters = crashReporters
+
+  // Fast refresh re-runs this, and we only want to wrap the original handler once.
+  if (globalHandlerInstalled || typeof ErrorUtils === "undefined") return
+  globalHandlerInstalled = true
+  const defaultHandler = ErrorUtils.getGlobalHandler()
+  ErrorUtils.setGlobalHandler((error, isFatal) => {
+    reportCrash(error, isFatal ? ErrorType.FATAL : ErrorType.HANDLED)
+    defaultHandler(error, isFatal)
+  })
+}
+
+/**
+ * Manually report a handled error. Sends it with the current breadcrumbs (and
+ * any saved after the last fatal error) to every reporter passed to
+ * `initCrashReporting`. A reporter that fails doesn't stop the others.
+ */
+export const reportCrash = (
+  error: Error,
+  type: ErrorType = ErrorType.FATAL,
+  context: CrashContext = {},
+) => {
+  const previousBreadcrumbs = takePersistedBreadcrumbs()
+  const report: CrashReport = {
+    error: { name: error.name, message: error.message, stack: error.stack },
+    type,
+    timestamp: Date.now(),
+    environment: Config.ENVIRONMENT,
+    breadcrumbs: getBreadcrumbs(),
+    ...(previousBreadcrumbs && { previousBreadcrumbs }),
+    ...context,
+  }
+  // The app may go down before this report is delivered, so keep the trail
+  // for the next one.
+  if (type === ErrorType.FATAL) persistBreadcrumbs()
+
+  // Reporters are called synchronously: after a fatal error there may be no
+  // later tick to run them in.
+  reporters.forEach((reporter) => {
+    try {
+      Promise.resolve(reporter.report(report)).catch((e) => warnReporterFailed(reporter, e))
+    } catch (e) {
+      warnReporterFailed(reporter, e)
+    }
+  })
+}
+
+function warnReporterFailed(reporter: CrashReporter, error: unknown) {
+  if (__DEV__) console.warn(`Crash reporter "${reporter.name}" failed`, error)
+}
@@ -0,0 +1,65 @@
+/**
+ * Crash reporters deliver `CrashReport`s somewhere. Pass the ones you want to
+ * `initCrashReporting`. To use a hosted service, write an adapter like these
+ * around its SDK, e.g. `report: (r) => Sentry.captureException(r.error)`.
+ */
+import { load, save } from "@/utils/storage"
+
+import type { CrashReport, CrashReporter } from "./types"
+
+/**
+ * Logs reports to the console (and so to Reactotron in dev).
+ */
+export const consoleReporter: CrashReporter = {
+  name: "console",
+  report: (report) => {
+    console.error(report.error)
+    console.log(`${report.error.message || "Unknown"} ${report.type}`, report)
+  },
+}
+
+export const DEFAULT_CRASH_LOG_KEY = "crashReporting.log"
+
+/**
+ * Appends reports to a log in storage so they survive a restart and can be
+ * read back with `loadCrashLog`, e.g. from a debug screen.
+ *
+ * @param storageKey Where the log is kept.
+ * @param limit How many reports to keep. Older ones are dropped first.
+ */
+export function storageReporter(storageKey = DEFAULT_CRASH_LOG_KEY, limit = 20): CrashReporter {
+  return {
+    name: "storage",
+    report: (report) => {
+      save(storageKey, [...loadCrashLog(storageKey), report].slice(-limit))
+    },
+  }
+}
+
+/**
+ * The reports saved by `storageReporter`, oldest first.
+ */
+export function loadCrashLog(storageKey = DEFAULT_CRASH_LOG_KEY): CrashReport[] {
+  return load<CrashReport[]>(storageKey) ?? []
+}
+
+/**
+ * POSTs each report as JSON to `url`, e.g. a collector running on your machine.
+ * Uses plain `fetch` rather than `Api`, so a crash in the request pipeline
+ * can still be reported.
+ *
+ * @param url The endpoint to send reports to.
+ */
+export function httpReporter(url: string): CrashReporter {
+  return {
+    name: "http",
+    report: async (report) => {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(report),
+      })
+      if (!response.ok) throw new Error(`Crash report rejected with ${response.status}`)
+    },
+  }
+}
@@ -0,0 +1,61 @@
+import type { Breadcrumb } from "./breadcrumbs"
+
+/**
+ * Error classifications used to sort errors on error reporting services.
+ */
+export enum ErrorType {
+  /**
+   * An error that would normally cause a red screen in dev
+   * and force the user to sign out and restart.
+   */
+  FATAL = "Fatal",
+  /**
+   * An error caught by try/catch where defined using Reactotron.tron.error.
+   */
+  HANDLED = "Handled",
+  /**
+   * An error thrown by a worklet on a worker runtime, forwarded to the JS
+   * thread. See `@/services/workers/errors`.
+   */
+  WORKER = "Worker",
+}
+
+/**
+ * Everything we know about an error, in a form that can be serialized.
+ */
+export interface CrashReport {
+  error: { name: string; message: string; stack?: string }
+  type: ErrorType
+  timestamp: number
+  /**
+   * The config environment the app was running against.
+   */
+  environment: string
+  /**
+   * Where in the component tree a render error happened.
+   */
+  componentStack?: string
+  breadcrumbs: Breadcrumb[]
+  /**
+   * The trail saved at the last fatal error, which may have been in an earlier
+   * session. Only attached to the first report after it.
+   */
+  previousBreadcrumbs?: Breadcrumb[]
+  extra?: Record<string, unknown>
+}
+
+/**
+ * An adapter that delivers crash reports somewhere. See `./reporters`.
+ */
+export interface CrashReporter {
+  name: string
+  report(report: CrashReport): void | Promise<void>
+}
+
+/**
+ * Extra context for `reportCrash`.
+ */
+export interface CrashContext {
+  componentStack?: string
+  extra?: Record<string, unknown>
+}
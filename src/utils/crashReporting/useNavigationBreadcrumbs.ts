@@ -0,0 +1,16 @@
+import { useEffect } from "react"
+import { usePathname } from "expo-router"
+
+import { addBreadcrumb } from "./breadcrumbs"
+
+/**
+ * Leaves a crash reporting breadcrumb every time the route changes. Use it
+ * once, in the root layout. Params are left out as they may hold personal data.
+ */
+export function useNavigationBreadcrumbs() {
+  const pathname = usePathname()
+
+  useEffect(() => {
+    addBreadcrumb("navigation", `Navigated to ${pathname}`)
+  }, [pathname])
+}
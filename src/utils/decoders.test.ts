@@ -0,0 +1,59 @@
+import * as d from "./decoders"
+
+describe("decoders", () => {
+  it("checks primitives and literals", () => {
+    expect(d.string("a")).toEqual({ ok: true, value: "a" })
+    expect(d.number(NaN)).toEqual({
+      ok: false,
+      errors: [{ path: "$", message: "Expected number, got NaN" }],
+    })
+    expect(d.boolean(null)).toEqual({
+      ok: false,
+      errors: [{ path: "$", message: "Expected boolean, got null" }],
+    })
+    expect(d.literal("ok")("error")).toEqual({
+      ok: false,
+      errors: [{ path: "$", message: 'Expected "ok", got string' }],
+    })
+  })
+
+  it("allows missing or null values only when asked to", () => {
+    expect(d.optional(d.string)(undefined)).toEqual({ ok: true, value: undefined })
+    expect(d.nullable(d.string)(null)).toEqual({ ok: true, value: null })
+    expect(d.optional(d.string)(null).ok).toBe(false)
+  })
+
+  it("drops fields that aren't in the shape", () => {
+    const decode = d.object({ id: d.number })
+    expect(decode({ id: 1, extra: true })).toEqual({ ok: true, value: { id: 1 } })
+  })
+
+  it("checks every value of a record", () => {
+    const decode = d.record(d.number)
+    expect(decode({ a: 1, b: 2 })).toEqual({ ok: true, value: { a: 1, b: 2 } })
+    expect(decode({ a: 1, b: "2" })).toEqual({
+      ok: false,
+      errors: [{ path: "$.b", message: "Expected number, got string" }],
+    })
+    expect(decode([]).ok).toBe(false)
+  })
+
+  it("reports every bad field with its path", () => {
+    const decode = d.object({
+      feed: d.object({ title: d.string }),
+      items: d.array(d.object({ guid: d.string, duration: d.optional(d.number) })),
+    })
+
+    expect(
+      decode({ feed: [], items: [{ guid: "a" }, { guid: 2, duration: "60" }, "oops"] }),
+    ).toEqual({
+      ok: false,
+      errors: [
+        { path: "$.feed", message: "Expected object, got array" },
+        { path: "$.items[1].guid", message: "Expected string, got number" },
+        { path: "$.items[1].duration", message: "Expected number, got string" },
+        { path: "$.items[2]", message: "Expected object, got string" },
+      ],
+    })
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * Small composable decoders for checking API payloads at runtime.
+ *
+ * TypeScript interfaces only describe what we *expect* the backend to send.
+ * A decoder checks it: declare one next to each response type, pass it to
+ * `Api.getJson` as `decode`, and a payload that doesn't match becomes a
+ * `bad-data` problem listing every field that was wrong:
+ *
+ * ```ts
+ * export const userDecoder: Decoder<User> = d.object({
+ *   id: d.number,
+ *   name: d.string,
+ *   email: d.nullable(d.string),
+ * })
+ * // → { kind: "bad-data", errors: [{ path: "$.name", message: "Expected string, got null" }] }
+ * ```
+ *
+ * Every decoder is a worklet, so payloads can be decoded on a worker runtime
+ * right after they are parsed. Storage keys use the same decoders as schemas
+ * for stored values.
+ */
+
+/**
+ * One thing wrong with a payload. `path` points at the field, e.g. `$.items[3].title`.
+ */
+export interface DecodeError {
+  path: string
+  message: string
+}
+
+export type DecodeResult<T> = { ok: true; value: T } | { ok: false; errors: DecodeError[] }
+
+/**
+ * Checks an unknown value and returns it typed, or the reasons it doesn't fit.
+ * Must be a worklet.
+ */
+export type Decoder<T> = (value: unknown, path?: string) => DecodeResult<T>
+
+/**
+ * The type a decoder produces.
+ */
+export type Infer<D> = D extends Decoder<infer T> ? T : never
+
+function describe(value: unknown): string {
+  "worklet"
+  if (value === null) return "null"
+  if (Array.isArray(value)) return "array"
+  if (typeof value === "number" && Number.isNaN(value)) return "NaN"
+  return typeof value
+}
+
+function fail(path: string, expected: string, value: unknown): DecodeResult<never> {
+  "worklet"
+  return { ok: false, errors: [{ path, message: `Expected ${expected}, got ${describe(value)}` }] }
+}
+
+/**
+ * Accepts anything, for parts of a payload we pass through without looking at.
+ */
+export const unknown: Decoder<unknown> = (value) => {
+  "worklet"
+  return { ok: true, value }
+}
+
+export const string: Decoder<string> = (value, path = "$") => {
+  "worklet"
+  return typeof value === "string" ? { ok: true, value } : fail(path, "string", value)
+}
+
+export const number: Decoder<number> = (value, path = "$") => {
+  "worklet"
+  return typeof value === "number" && !Number.isNaN(value)
+    ? { ok: true, value }
+    : fail(path, "number", value)
+}
+
+export const boolean: Decoder<boolean> = (value, path = "$") => {
+  "worklet"
+  return typeof value === "boolean" ? { ok: true, value } : fail(path, "boolean", value)
+}
+
+/**
+ * Accepts exactly `expected`.
+ */
+export function literal<T extends string | number | boolean>(expected: T): Decoder<T> {
+  return (value, path = "$") => {
+    "worklet"
+    return value === expected
+      ? { ok: true, value: expected }
+      : fail(path, JSON.stringify(expected), value)
+  }
+}
+
+/**
+ * Accepts `undefined` as well as whatever `decoder` accepts.
+ */
+export function optional<T>(decoder: Decoder<T>): Decoder<T | undefined> {
+  return (value, path = "$") => {
+    "worklet"
+    return value === undefined ? { ok: true, value } : decoder(value, path)
+  }
+}
+
+/**
+ * Accepts `null` as well as whatever `decoder` accepts.
+ */
+export function nullable<T>(decoder: Decoder<T>): Decoder<T | null> {
+  return (value, path = "$") => {
+    "worklet"
+    return value === null ? { ok: true, value } : decoder(value, path)
+  }
+}
+
+/**
+ * Accepts an array whose items all pass `item`. Reports every bad item.
+ */
+export function array<T>(item: Decoder<T>): Decoder<T[]> {
+  return (value, path = "$") => {
+    "worklet"
+    if (!Array.isArray(value)) return fail(path, "array", value)
+
+    const items: T[] = []
+    const errors: DecodeError[] = []
+    value.forEach((entry, index) => {
+      const result = item(entry, `${path}[${index}]`)
+      if (result.ok) items.push(result.value)
+      else errors.push(...result.errors)
+    })
+    return errors.length ? { ok: false, errors } : { ok: true, value: items }
+  }
+}
+
+/**
+ * Accepts an object with the fields in `shape`. Fields not in the shape are
+ * dropped from the result. Reports every bad field.
+ */
+export function object<S extends Record<string, Decoder<unknown>>>(
+  shape: S,
+): Decoder<{ [K in keyof S]: Infer<S[K]> }> {
+  return (value, path = "$") => {
+    "worklet"
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return fail(path, "object", value)
+    }
+
+    const record = value as Record<string, unknown>
+    const decoded: Record<string, unknown> = {}
+    const errors: DecodeError[] = []
+    Object.keys(shape).forEach((key) => {
+      const result = shape[key](record[key], `${path}.${key}`)
+      if (result.ok) decoded[key] = result.value
+      else errors.push(...result.errors)
+    })
+    return errors.length
+      ? { ok: false, errors }
+      : { ok: true, value: decoded as { [K in keyof S]: Infer<S[K]> } }
+  }
+}
+
+/**
+ * Accepts an object used as a map, with any keys and values accepted by
+ * `value`. Reports every bad value.
+ */
+export function record<T>(value: Decoder<T>): Decoder<Record<string, T>> {
+  return (input, path = "$") => {
+    "worklet"
+    if (typeof input !== "object" || input === null || Array.isArray(input)) {
+      return fail(path, "object", input)
+    }
+
+    const decoded: Record<string, T> = {}
+    const errors: DecodeError[] = []
+    Object.entries(input).forEach(([key, entry]) => {
+      const result = value(entry, `${path}.${key}`)
+      if (result.ok) decoded[key] = result.value
+      else errors.push(...result.errors)
+    })
+    return errors.length ? { ok: false, errors } : { ok: true, value: decoded }
+  }
+}
@@ -1,5 +1,9 @@
 import { MMKV } from "react-native-mmkv"
 
+/**
+ * The shared storage, for app preferences and anything that should survive
+ * signing out. The functions below use it unless given another instance.
+ */
 export const storage = new MMKV()
 
 /**
@@ -7,9 +11,9 @@ export const storage = new MMKV()
  *
  * @param key The key to fetch.
  */
-export function loadString(key: string): string | null {
+export function loadString(key: string, instance = storage): string | null {
   try {
-    return storage.getString(key) ?? null
+    return instance.getString(key) ?? null
   } catch {
     // not sure why this would fail... even reading the RN docs I'm unclear
     return null
@@ -22,9 +26,9 @@ export function loadString(key: string): string | null {
  * @param key The key to fetch.
  * @param value The value to store.
  */
-export function saveString(key: string, value: string): boolean {
+export function saveString(key: string, value: string, instance = storage): boolean {
   try {
-    storage.set(key, value)
+    instance.set(key, value)
     return true
   } catch {
     return false
@@ -36,10 +40,10 @@ export function saveString(key: string, value: string): boolean {
  *
  * @param key The key to fetch.
  */
-export function load<T>(key: string): T | null {
+export function load<T>(key: string, instance = storage): T | null {
   let almostThere: string | null = null
   try {
-    almostThere = loadString(key)
+    almostThere = loadString(key, instance)
     return JSON.parse(almostThere ?? "") as T
   } catch {
     return (almostThere as T) ?? null
@@ -52,9 +56,9 @@ export function load<T>(key: string): T | null {
  * @param key The key to fetch.
  * @param value The value to store.
  */
-export function save(key: string, value: unknown): boolean {
+export function save(key: string, value: unknown, instance = storage): boolean {
   try {
-    saveString(key, JSON.stringify(value))
+    saveString(key, JSON.stringify(value), instance)
     return true
   } catch {
     return false
@@ -66,17 +70,113 @@ export function save(key: string, value: unknown): boolean {
  *
  * @param key The key to kill.
  */
-export function remove(key: string): void {
+export function remove(key: string, instance = storage): void {
   try {
-    storage.delete(key)
+    instance.delete(key)
   } catch {}
 }
 
 /**
  * Burn it all to the ground.
  */
-export function clear(): void {
+export function clear(instance = storage): void {
   try {
-    storage.clearAll()
+    instance.clearAll()
   } catch {}
 }
+
+/**
+ * Calls `listener` whenever `key` is saved or removed, including by `clear`.
+ * Only sees changes made from this JS runtime.
+ *
+ * @param key The key to watch.
+ * @param listener Called after each change.
+ * @returns A function that removes the listener.
+ */
+export function subscribe(key: string, listener: () => void, instance = storage): () => void {
+  const subscription = instance.addOnValueChangedListener((changedKey) => {
+    if (changedKey === key) listener()
+  })
+  return () => subscription.remove()
+}
+
+export interface StorageOptions {
+  /**
+   * Encrypts the namespace on disk. MMKV accepts keys of up to 16 bytes.
+   */
+  encryptionKey?: string
+}
+
+/**
+ * A separate MMKV instance with its own file, so its keys can't collide with
+ * other namespaces and `clear()` only wipes its own data. Create them with
+ * `createStorage`.
+ */
+export class StorageNamespace {
+  readonly mmkv: MMKV
+
+  constructor(
+    readonly id: string,
+    readonly options: StorageOptions = {},
+  ) {
+    this.mmkv = new MMKV({ id, encryptionKey: options.encryptionKey })
+  }
+
+  loadString(key: string) {
+    return loadString(key, this.mmkv)
+  }
+
+  saveString(key: string, value: string) {
+    return saveString(key, value, this.mmkv)
+  }
+
+  load<T>(key: string) {
+    return load<T>(key, this.mmkv)
+  }
+
+  save(key: string, value: unknown) {
+    return save(key, value, this.mmkv)
+  }
+
+  remove(key: string) {
+    remove(key, this.mmkv)
+  }
+
+  subscribe(key: string, listener: () => void) {
+    return subscribe(key, listener, this.mmkv)
+  }
+
+  /**
+   * Removes everything in this namespace, and nothing outside it.
+   */
+  clear() {
+    clear(this.mmkv)
+  }
+}
+
+const namespaces = new Map<string, StorageNamespace>()
+
+/**
+ * Gets the storage namespace with this id, creating it the first time. Use a
+ * namespace for data with its own lifetime, e.g. user data that is wiped on
+ * sign out, and an encrypted one for secrets such as auth tokens.
+ *
+ * @param id The namespace's name, which is also its file name.
+ * @param options Only used when the namespace is first created.
+ */
+export function createStorage(id: string, options: StorageOptions = {}): StorageNamespace {
+  const existing = namespaces.get(id)
+  if (existing) {
+    if (existing.options.encryptionKey !== options.encryptionKey) {
+      throw new Error(`Storage namespace "${id}" was already created with another encryption key`)
+    }
+    return existing
+  }
+
+  if (options.encryptionKey && new TextEncoder().encode(options.encryptionKey).length > 16) {
+    throw new Error(`Encryption key for storage namespace "${id}" is longer than 16 bytes`)
+  }
+  const namespace = new StorageNamespace(id, options)
+  namespaces.set(id, namespace)
+  return namespace
+}
@@ -0,0 +1,108 @@
+import * as d from "@/utils/decoders"
+
+import {
+  defineStorageKey,
+  getRegisteredKeys,
+  getStoredVersion,
+  loadItem,
+  migrateStorage,
+  removeItem,
+  saveItem,
+  STORAGE_VERSIONS_KEY,
+} from "./registry"
+
+import { load, save, storage } from "."
+
+const settingsV1 = defineStorageKey({
+  key: "test.settings",
+  schema: d.object({ darkMode: d.boolean }),
+  default: { darkMode: false },
+  version: 1,
+})
+
+// The same key after two shape changes
+const settingsV3 = defineStorageKey({
+  key: "test.settings",
+  schema: d.object({ theme: d.string, fontScale: d.number }),
+  default: { theme: "system", fontScale: 1 },
+  version: 3,
+  migrations: {
+    2: (value) => ({ theme: (value as { darkMode: boolean }).darkMode ? "dark" : "light" }),
+    3: (value) => ({ ...(value as object), fontScale: 1 }),
+  },
+})
+
+describe("typed storage keys", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("registers keys by name", () => {
+    expect(getRegisteredKeys().filter((k) => k.key === "test.settings")).toEqual([settingsV3])
+    expect(() => defineStorageKey({ ...settingsV1, version: 0 })).toThrow("invalid version")
+  })
+
+  it("loads the default for missing or invalid values", () => {
+    expect(loadItem(settingsV1)).toEqual({ darkMode: false })
+
+    save(settingsV1.key, { darkMode: "yes" })
+    jest.spyOn(console, "warn").mockImplementationOnce(() => {})
+    expect(loadItem(settingsV1)).toEqual({ darkMode: false })
+  })
+
+  it("saves and removes values with their version", () => {
+    saveItem(settingsV3, { theme: "dark", fontScale: 2 })
+    expect(loadItem(settingsV3)).toEqual({ theme: "dark", fontScale: 2 })
+    expect(getStoredVersion(settingsV3)).toBe(3)
+
+    removeItem(settingsV3)
+    expect(storage.contains(settingsV3.key)).toBe(false)
+    expect(load(STORAGE_VERSIONS_KEY)).toEqual({})
+  })
+})
+
+describe("migrateStorage", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("runs every migration from the stored version", () => {
+    saveItem(settingsV1, { darkMode: true })
+
+    expect(migrateStorage([settingsV3])).toEqual([
+      { key: "test.settings", from: 1, to: 3, status: "migrated" },
+    ])
+    expect(loadItem(settingsV3)).toEqual({ theme: "dark", fontScale: 1 })
+    expect(getStoredVersion(settingsV3)).toBe(3)
+
+    // Nothing left to do on the next launch
+    expect(migrateStorage([settingsV3])).toEqual([])
+  })
+
+  it("treats values saved before the key was defined as version 1", () => {
+    save("test.settings", { darkMode: false })
+
+    migrateStorage([settingsV3])
+
+    expect(loadItem(settingsV3)).toEqual({ theme: "light", fontScale: 1 })
+  })
+
+  it("removes values that can't be migrated", () => {
+    saveItem(settingsV1, { darkMode: true })
+    save("test.settings", null)
+    jest.spyOn(console, "warn").mockImplementationOnce(() => {})
+
+    expect(migrateStorage([settingsV3])).toEqual([
+      { key: "test.settings", from: 1, to: 3, status: "reset" },
+    ])
+    expect(storage.contains("test.settings")).toBe(false)
+    expect(loadItem(settingsV3)).toEqual(settingsV3.default)
+  })
+
+  it("leaves values from newer versions alone", () => {
+    saveItem(settingsV3, { theme: "dark", fontScale: 2 })
+
+    expect(migrateStorage([settingsV1])).toEqual([])
+    expect(load("test.settings")).toEqual({ theme: "dark", fontScale: 2 })
+  })
+})
@@ -0,0 +1,188 @@
+/**
+ * Typed storage keys.
+ *
+ * `load` and `save` trust that whatever is stored under a key has the shape
+ * the caller expects. That stops being true as soon as an app update changes
+ * the shape. A key defined with `defineStorageKey` instead declares its
+ * schema, its default and the version of its shape:
+ *
+ * - `loadItem` checks the stored value against the schema and returns the
+ *   default, rather than bad data, if it doesn't match.
+ * - `saveItem` records the version the value was written with.
+ * - `migrateStorage`, run once on startup, brings values written by older
+ *   versions up to date with the key's `migrations`.
+ *
+ * To change a key's shape, bump its `version`, update its schema and default,
+ * and add a migration from the previous version.
+ */
+import type { Decoder } from "@/utils/decoders"
+
+import { loadString, remove, save } from "."
+
+/**
+ * Upgrades a stored value from the previous version. The result is checked
+ * against the schema once every migration has run.
+ */
+export type StorageMigration = (value: unknown) => unknown
+
+export interface StorageKey<T> {
+  key: string
+  schema: Decoder<T>
+  /**
+   * Returned by `loadItem` when nothing valid is stored.
+   */
+  default: T
+  /**
+   * The version of the value's shape, starting at 1.
+   */
+  version: number
+  /**
+   * Migrations by the version they upgrade to, e.g. `2` upgrades a version 1
+   * value. A version without one keeps the value as it is, which is fine
+   * when the schema only got looser.
+   */
+  migrations?: Record<number, StorageMigration>
+}
+
+export interface MigrationResult {
+  key: string
+  from: number
+  to: number
+  /**
+   * "reset" means the value couldn't be migrated and was removed, so the key
+   * is back to its default.
+   */
+  status: "migrated" | "reset"
+}
+
+/**
+ * Where the version of each stored value is kept.
+ */
+export const STORAGE_VERSIONS_KEY = "storage.versions"
+
+const registry = new Map<string, StorageKey<unknown>>()
+
+/**
+ * Declares a typed storage key and registers it for `migrateStorage`.
+ */
+export function defineStorageKey<T>(definition: StorageKey<T>): StorageKey<T> {
+  if (!Number.isInteger(definition.version) || definition.version < 1) {
+    throw new Error(`Storage key "${definition.key}" has invalid version ${definition.version}`)
+  }
+  // Fast refresh re-runs definitions, so a key can be registered more than once.
+  registry.set(definition.key, definition as StorageKey<unknown>)
+  return definition
+}
+
+/**
+ * Every key declared with `defineStorageKey`.
+ */
+export function getRegisteredKeys(): StorageKey<unknown>[] {
+  return [...registry.values()]
+}
+
+function loadVersions(): Record<string, number> {
+  try {
+    return JSON.parse(loadString(STORAGE_VERSIONS_KEY) ?? "{}")
+  } catch {
+    return {}
+  }
+}
+
+function setVersion(key: string, version: number | undefined) {
+  const versions = loadVersions()
+  if (versions[key] === version) return
+  if (version === undefined) delete versions[key]
+  else versions[key] = version
+  save(STORAGE_VERSIONS_KEY, versions)
+}
+
+/**
+ * The version a key's stored value was written with. Values saved before the
+ * key was defined count as version 1.
+ */
+export function getStoredVersion(storageKey: StorageKey<unknown>): number {
+  return loadVersions()[storageKey.key] ?? 1
+}
+
+function parseStored(key: string): { found: false } | { found: true; value: unknown } {
+  const raw = loadString(key)
+  if (raw === null) return { found: false }
+  try {
+    return { found: true, value: JSON.parse(raw) }
+  } catch {
+    // A bare string saved with `saveString`
+    return { found: true, value: raw }
+  }
+}
+
+/**
+ * Loads a key's value, or its default if nothing is stored or the stored
+ * value doesn't match the schema.
+ */
+export function loadItem<T>(storageKey: StorageKey<T>): T {
+  const stored = parseStored(storageKey.key)
+  if (!stored.found) return storageKey.default
+
+  const result = storageKey.schema(stored.value)
+  if (result.ok) return result.value
+
+  if (__DEV__) console.warn(`Ignoring invalid value stored for "${storageKey.key}"`, result.errors)
+  return storageKey.default
+}
+
+/**
+ * Saves a key's value along with the key's current version.
+ */
+export function saveItem<T>(storageKey: StorageKey<T>, value: T): boolean {
+  const saved = save(storageKey.key, value)
+  if (saved) setVersion(storageKey.key, storageKey.version)
+  return saved
+}
+
+/**
+ * Removes a key's value, so it loads as the default.
+ */
+export function removeItem(storageKey: StorageKey<unknown>): void {
+  remove(storageKey.key)
+  setVersion(storageKey.key, undefined)
+}
+
+/**
+ * Upgrades every stored value written by an older version of its key. Values
+ * that fail a migration or don't match the schema afterwards are removed, so
+ * the app starts from the default instead of corrupt state. Values written by
+ * a newer version (after a downgrade) are left alone.
+ *
+ * @param keys The keys to check. Defaults to every registered key.
+ */
+export function migrateStorage(keys = getRegisteredKeys()): MigrationResult[] {
+  const results: MigrationResult[] = []
+
+  keys.forEach((storageKey) => {
+    const stored = parseStored(storageKey.key)
+    const from = getStoredVersion(storageKey)
+    if (!stored.found || from >= storageKey.version) return
+
+    const to = storageKey.version
+    try {
+      let value = stored.value
+      for (let version = from + 1; version <= to; version++) {
+        const migrate = storageKey.migrations?.[version]
+        if (migrate) value = migrate(value)
+      }
+
+      const result = storageKey.schema(value)
+      if (!result.ok) throw new Error(JSON.stringify(result.errors))
+
+      saveItem(storageKey, result.value)
+      results.push({ key: storageKey.key, from, to, status: "migrated" })
+    } catch (error) {
+      if (__DEV__) console.warn(`Could not migrate "${storageKey.key}" from v${from}`, error)
+      removeItem(storageKey)
+      results.push({ key: storageKey.key, from, to, status: "reset" })
+    }
+  })
+
+  return results
+}
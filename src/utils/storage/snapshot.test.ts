@@ -0,0 +1,45 @@
+import { exportStorage, importStorage, parseStorageSnapshot, prettyPrintValue } from "./snapshot"
+
+import { save, saveString, storage } from "."
+
+describe("storage snapshots", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("round-trips the whole store through JSON", () => {
+    save("settings", { units: "metric" })
+    saveString("ignite.themeScheme", "dark")
+    const json = JSON.stringify(exportStorage())
+
+    storage.clearAll()
+    save("leftover", true)
+    const parsed = parseStorageSnapshot(json)
+    if (!parsed.ok) throw new Error("Expected a valid snapshot")
+    importStorage(parsed.snapshot)
+
+    expect(storage.getAllKeys().sort()).toEqual(["ignite.themeScheme", "settings"])
+    expect(storage.getString("settings")).toBe('{"units":"metric"}')
+    expect(storage.getString("ignite.themeScheme")).toBe("dark")
+  })
+
+  it("keeps other keys when merging", () => {
+    save("leftover", true)
+    importStorage({ version: 1, exportedAt: 0, entries: { settings: "{}" } }, { merge: true })
+
+    expect(storage.getAllKeys().sort()).toEqual(["leftover", "settings"])
+  })
+
+  it("rejects anything that isn't a snapshot", () => {
+    expect(parseStorageSnapshot("nope").ok).toBe(false)
+    expect(parseStorageSnapshot('{"version":2,"exportedAt":0,"entries":{}}')).toEqual({
+      ok: false,
+      errors: [{ path: "$.version", message: "Expected 1, got number" }],
+    })
+  })
+
+  it("pretty-prints JSON values only", () => {
+    expect(prettyPrintValue('{"a":[1]}')).toBe('{\n  "a": [\n    1\n  ]\n}')
+    expect(prettyPrintValue("dark")).toBe("dark")
+  })
+})
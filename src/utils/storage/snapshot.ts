@@ -0,0 +1,86 @@
+/**
+ * Exporting and importing the whole store, so QA can capture a state on one
+ * device and reproduce it on another. Used by the storage inspector.
+ *
+ * Values are exported as the strings they are stored as: `save` writes JSON
+ * strings, and the app doesn't store MMKV numbers, booleans or buffers.
+ */
+import { MMKV } from "react-native-mmkv"
+
+import * as d from "@/utils/decoders"
+import type { DecodeError } from "@/utils/decoders"
+
+import { storage } from "."
+
+export const STORAGE_SNAPSHOT_VERSION = 1
+
+export interface StorageSnapshot {
+  version: typeof STORAGE_SNAPSHOT_VERSION
+  exportedAt: number
+  entries: Record<string, string>
+}
+
+const snapshotDecoder = d.object({
+  version: d.literal(STORAGE_SNAPSHOT_VERSION),
+  exportedAt: d.number,
+  entries: d.record(d.string),
+})
+
+/**
+ * Every string value in storage.
+ */
+export function exportStorage(instance: MMKV = storage): StorageSnapshot {
+  const entries: Record<string, string> = {}
+  instance
+    .getAllKeys()
+    .sort()
+    .forEach((key) => {
+      const value = instance.getString(key)
+      if (value !== undefined) entries[key] = value
+    })
+  return { version: STORAGE_SNAPSHOT_VERSION, exportedAt: Date.now(), entries }
+}
+
+/**
+ * Reads a snapshot from exported JSON.
+ */
+export function parseStorageSnapshot(
+  json: string,
+): { ok: true; snapshot: StorageSnapshot } | { ok: false; errors: DecodeError[] } {
+  let value: unknown
+  try {
+    value = JSON.parse(json)
+  } catch (e) {
+    return { ok: false, errors: [{ path: "$", message: (e as Error).message }] }
+  }
+  const result = snapshotDecoder(value)
+  return result.ok ? { ok: true, snapshot: result.value } : result
+}
+
+/**
+ * Writes a snapshot to storage, replacing everything in it unless told to
+ * merge. Restart the app afterwards, as most state is only read on launch.
+ *
+ * @param snapshot The snapshot to restore.
+ * @param options `merge` keeps keys that aren't in the snapshot.
+ */
+export function importStorage(
+  snapshot: StorageSnapshot,
+  { merge = false }: { merge?: boolean } = {},
+  instance: MMKV = storage,
+) {
+  if (!merge) instance.clearAll()
+  Object.entries(snapshot.entries).forEach(([key, value]) => instance.set(key, value))
+}
+
+/**
+ * A stored value indented for reading, if it is JSON. Other strings are
+ * returned as they are.
+ */
+export function prettyPrintValue(raw: string): string {
+  try {
+    return JSON.stringify(JSON.parse(raw), null, 2)
+  } catch {
+    return raw
+  }
+}
@@ -1,4 +1,4 @@
-import { load, loadString, save, saveString, clear, remove, storage } from "."
+import { load, loadString, save, saveString, clear, remove, storage, createStorage } from "."
 
 const VALUE_OBJECT = { x: 1 }
 const VALUE_STRING = JSON.stringify(VALUE_OBJECT)
@@ -59,3 +59,31 @@ describe("MMKV Storage", () => {
     expect(storage.getAllKeys()).toEqual([])
   })
 })
+
+describe("createStorage", () => {
+  it("keeps each namespace's data separate", () => {
+    storage.clearAll()
+    const user = createStorage("test.user")
+    save("theme", "dark")
+    user.save("theme", "light")
+
+    expect(load("theme")).toEqual("dark")
+    expect(user.load("theme")).toEqual("light")
+
+    user.clear()
+    expect(user.load("theme")).toBeNull()
+    expect(load("theme")).toEqual("dark")
+  })
+
+  it("returns the same namespace for the same id", () => {
+    const secrets = createStorage("test.secrets", { encryptionKey: "0123456789abcdef" })
+    expect(createStorage("test.secrets", { encryptionKey: "0123456789abcdef" })).toBe(secrets)
+    expect(() => createStorage("test.secrets")).toThrow("another encryption key")
+  })
+
+  it("rejects encryption keys MMKV can't use", () => {
+    expect(() => createStorage("test.long", { encryptionKey: "0123456789abcdefg" })).toThrow(
+      "longer than 16 bytes",
+    )
+  })
+})
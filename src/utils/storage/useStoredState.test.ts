@@ -0,0 +1,89 @@
+import { act, renderHook } from "@testing-library/react-native"
+
+import { useStoredState } from "./useStoredState"
+
+import { createStorage, load, save, storage, subscribe } from "."
+
+describe("subscribe", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("calls the listener when its key changes", () => {
+    const listener = jest.fn()
+    const unsubscribe = subscribe("count", listener)
+
+    save("count", 1)
+    save("other", 1)
+    storage.clearAll()
+    expect(listener).toHaveBeenCalledTimes(2)
+
+    unsubscribe()
+    save("count", 2)
+    expect(listener).toHaveBeenCalledTimes(2)
+  })
+})
+
+describe("useStoredState", () => {
+  beforeEach(() => {
+    storage.clearAll()
+  })
+
+  it("starts from the stored value, or the default", () => {
+    save("saved", { count: 3 })
+
+    expect(renderHook(() => useStoredState("saved", { count: 0 })).result.current[0]).toEqual({
+      count: 3,
+    })
+    expect(renderHook(() => useStoredState("missing", { count: 0 })).result.current[0]).toEqual({
+      count: 0,
+    })
+  })
+
+  it("saves updates and shares them between components", () => {
+    const first = renderHook(() => useStoredState("count", 0))
+    const second = renderHook(() => useStoredState("count", 0))
+
+    act(() => first.result.current[1](1))
+    act(() => second.result.current[1]((count) => count + 1))
+
+    expect(load("count")).toBe(2)
+    expect(first.result.current[0]).toBe(2)
+    expect(second.result.current[0]).toBe(2)
+  })
+
+  it("follows changes made outside the hook", () => {
+    const { result } = renderHook(() => useStoredState("count", 0))
+
+    act(() => {
+      save("count", 5)
+    })
+    expect(result.current[0]).toBe(5)
+
+    act(() => result.current[2]())
+    expect(result.current[0]).toBe(0)
+  })
+
+  it("keeps the same object until the value changes", () => {
+    const { result, rerender } = renderHook(() => useStoredState("user", { name: "" }))
+    const initial = result.current[0]
+
+    rerender({})
+    expect(result.current[0]).toBe(initial)
+  })
+
+  it("uses the default when the stored value isn't JSON", () => {
+    storage.set("count", "not json")
+    expect(renderHook(() => useStoredState("count", 0)).result.current[0]).toBe(0)
+  })
+
+  it("works with storage namespaces", () => {
+    const user = createStorage("test.stored-state")
+    user.clear()
+    const { result } = renderHook(() => useStoredState("count", 0, user.mmkv))
+
+    act(() => result.current[1](7))
+    expect(user.load("count")).toBe(7)
+    expect(load("count")).toBeNull()
+  })
+})
@@ -0,0 +1,54 @@
+import { useCallback, useMemo, useSyncExternalStore } from "react"
+import type { MMKV } from "react-native-mmkv"
+
+import { loadString, remove, save, storage, subscribe } from "."
+
+export type SetStoredState<T> = (value: T | ((current: T) => T)) => void
+
+/**
+ * Like `useState`, but the value is saved to storage as JSON. Every component
+ * using the same key sees the same value and re-renders when any of them, or
+ * `save`/`remove` elsewhere, changes it.
+ * @param {string} key - The storage key to keep the value under.
+ * @param {T} defaultValue - Used while nothing (or nothing parseable) is stored.
+ * @param {MMKV} instance - The storage to use, e.g. a namespace's `mmkv`. Defaults to the shared one.
+ * @returns {[T, SetStoredState<T>, () => void]} - The value, a setter, and a function that removes the value.
+ */
+export function useStoredState<T>(
+  key: string,
+  defaultValue: T,
+  instance: MMKV = storage,
+): [T, SetStoredState<T>, () => void] {
+  const subscribeToKey = useCallback(
+    (listener: () => void) => subscribe(key, listener, instance),
+    [key, instance],
+  )
+  // The raw string is the snapshot, as it only changes when the value does.
+  const raw = useSyncExternalStore(subscribeToKey, () => loadString(key, instance))
+
+  // The default is usually an inline literal, so only its contents matter.
+  const serializedDefault = JSON.stringify(defaultValue)
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const value = useMemo(() => parseOr(raw, defaultValue), [raw, serializedDefault])
+
+  const setValue: SetStoredState<T> = useCallback(
+    (next) => {
+      // Read the latest value, which may be newer than this render's.
+      const current = parseOr(loadString(key, instance), value)
+      save(key, next instanceof Function ? next(current) : next, instance)
+    },
+    [key, instance, value],
+  )
+
+  const removeValue = useCallback(() => remove(key, instance), [key, instance])
+
+  return [value, setValue, removeValue]
+}
+
+function parseOr<T>(raw: string | null, fallback: T): T {
+  try {
+    return raw === null ? fallback : JSON.parse(raw)
+  } catch {
+    return fallback
+  }
+}
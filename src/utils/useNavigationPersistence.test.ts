@@ -0,0 +1,96 @@
+import { router } from "expo-router"
+import { renderHook } from "@testing-library/react-native"
+
+import { storage } from "@/utils/storage"
+import { loadItem, saveItem } from "@/utils/storage/registry"
+
+import {
+  isNavigationPersistenceEnabled,
+  persistedRouteKey,
+  useNavigationPersistence,
+} from "./useNavigationPersistence"
+
+const mockRoute: {
+  pathname: string
+  params: Record<string, string | string[]>
+  navigationKey?: string
+} = { pathname: "/", params: {} }
+
+jest.mock("expo-router", () => ({
+  router: { replace: jest.fn() },
+  usePathname: () => mockRoute.pathname,
+  useGlobalSearchParams: () => mockRoute.params,
+  useRootNavigationState: () =>
+    mockRoute.navigationKey ? { key: mockRoute.navigationKey } : undefined,
+}))
+
+describe("isNavigationPersistenceEnabled", () => {
+  it("follows the persistNavigation setting for dev builds", () => {
+    expect(__DEV__).toBe(true)
+    expect(isNavigationPersistenceEnabled("always")).toBe(true)
+    expect(isNavigationPersistenceEnabled("dev")).toBe(true)
+    expect(isNavigationPersistenceEnabled("prod")).toBe(false)
+    expect(isNavigationPersistenceEnabled("never")).toBe(false)
+  })
+})
+
+describe("useNavigationPersistence", () => {
+  beforeEach(() => {
+    storage.clearAll()
+    jest.mocked(router.replace).mockClear()
+    mockRoute.pathname = "/"
+    mockRoute.params = {}
+    mockRoute.navigationKey = undefined
+  })
+
+  it("waits for the root navigator before restoring the saved route", () => {
+    saveItem(persistedRouteKey, { pathname: "/demo/podcasts", params: { episode: "3" } })
+
+    const { result, rerender } = renderHook(() => useNavigationPersistence())
+    expect(result.current).toBe(false)
+    expect(router.replace).not.toHaveBeenCalled()
+
+    mockRoute.navigationKey = "root"
+    rerender({})
+    expect(result.current).toBe(true)
+    expect(router.replace).toHaveBeenCalledTimes(1)
+    expect(router.replace).toHaveBeenCalledWith({
+      pathname: "/demo/podcasts",
+      params: { episode: "3" },
+    })
+  })
+
+  it("doesn't save the initial route before restoring", () => {
+    saveItem(persistedRouteKey, { pathname: "/demo/podcasts", params: {} })
+
+    const { rerender } = renderHook(() => useNavigationPersistence())
+    mockRoute.pathname = "/welcome"
+    rerender({})
+
+    expect(loadItem(persistedRouteKey)).toEqual({ pathname: "/demo/podcasts", params: {} })
+  })
+
+  it("doesn't navigate when already on the saved route", () => {
+    saveItem(persistedRouteKey, { pathname: "/", params: {} })
+    mockRoute.navigationKey = "root"
+
+    const { result } = renderHook(() => useNavigationPersistence())
+    expect(result.current).toBe(true)
+    expect(router.replace).not.toHaveBeenCalled()
+  })
+
+  it("saves the route whenever it changes", () => {
+    mockRoute.navigationKey = "root"
+
+    const { rerender } = renderHook(() => useNavigationPersistence())
+    expect(loadItem(persistedRouteKey)).toEqual({ pathname: "/", params: {} })
+
+    mockRoute.pathname = "/demo/community"
+    mockRoute.params = { tab: ["a", "b"] }
+    rerender({})
+    expect(loadItem(persistedRouteKey)).toEqual({
+      pathname: "/demo/community",
+      params: { tab: ["a", "b"] },
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react"
+import {
+  Href,
+  router,
+  useGlobalSearchParams,
+  usePathname,
+  useRootNavigationState,
+} from "expo-router"
+
+import Config from "@/config"
+import type { PersistNavigationConfig } from "@/config/config.base"
+import * as d from "@/utils/decoders"
+import type { Decoder } from "@/utils/decoders"
+import { defineStorageKey, loadItem, saveItem } from "@/utils/storage/registry"
+import type { StorageKey } from "@/utils/storage/registry"
+
+export const NAVIGATION_PERSISTENCE_KEY = "NAVIGATION_STATE"
+
+/**
+ * The route saved between launches.
+ */
+export interface PersistedRoute {
+  pathname: string
+  params: Record<string, string | string[]>
+}
+
+const paramValue: Decoder<string | string[]> = (value, path) => {
+  "worklet"
+  return Array.isArray(value) ? d.array(d.string)(value, path) : d.string(value, path)
+}
+
+export const persistedRouteKey = defineStorageKey<PersistedRoute | null>({
+  key: NAVIGATION_PERSISTENCE_KEY,
+  schema: d.nullable(d.object({ pathname: d.string, params: d.record(paramValue) })),
+  default: null,
+  version: 1,
+})
+
+/**
+ * Whether navigation should be saved and restored under the given
+ * `Config.persistNavigation` setting in this kind of build.
+ * @param {PersistNavigationConfig} persistNavigation - The setting to check.
+ * @returns {boolean} - True if navigation persistence is on.
+ */
+export function isNavigationPersistenceEnabled(
+  persistNavigation: PersistNavigationConfig,
+): boolean {
+  if (persistNavigation === "always") return true
+  if (persistNavigation === "dev") return __DEV__
+  if (persistNavigation === "prod") return !__DEV__
+  return false
+}
+
+/**
+ * Saves the current route and its params to storage whenever they change, and
+ * navigates back to the saved route on launch, according to
+ * `Config.persistNavigation`. Use it once, in the root layout.
+ * @param {StorageKey} persistenceKey - The storage key to save the route under.
+ * @returns {boolean} - True once any saved route has been restored.
+ */
+export function useNavigationPersistence(
+  persistenceKey: StorageKey<PersistedRoute | null> = persistedRouteKey,
+): boolean {
+  const enabled = isNavigationPersistenceEnabled(Config.persistNavigation)
+  const pathname = usePathname()
+  const params = useGlobalSearchParams<Record<string, string | string[]>>()
+  const navigationKey = useRootNavigationState()?.key
+  const [isRestored, setIsRestored] = useState(!enabled)
+
+  useEffect(() => {
+    // Navigating before the root navigator has mounted throws, so wait for it.
+    if (isRestored || !navigationKey) return
+
+    const saved = loadItem(persistenceKey)
+    if (saved?.pathname && saved.pathname !== pathname) {
+      router.replace({ pathname: saved.pathname, params: saved.params } as Href)
+    }
+    setIsRestored(true)
+  }, [isRestored, navigationKey, pathname, persistenceKey])
+
+  // Serialized so a new params object with the same contents doesn't trigger a save.
+  const serializedParams = JSON.stringify(params)
+  useEffect(() => {
+    // Until the saved route is restored, the current one is just the initial route.
+    if (!enabled || !isRestored) return
+    saveItem(persistenceKey, { pathname, params: JSON.parse(serializedParams) })
+  }, [enabled, isRestored, pathname, serializedParams, persistenceKey])
+
+  return isRestored
+}
@@ -0,0 +1,68 @@
+import type { ApisauceInstance } from "apisauce"
+
+import { Api } from "@/services/api"
+import type { ApiConfig } from "@/services/api/types"
+
+// axios is only a dependency of apisauce, so its types are reached through it.
+type AxiosAdapterOption = NonNullable<ApisauceInstance["axiosInstance"]["defaults"]["adapter"]>
+type AxiosAdapter = Extract<AxiosAdapterOption, (...args: any[]) => unknown>
+type InternalAxiosRequestConfig = Parameters<AxiosAdapter>[0]
+
+export interface MockResponse {
+  status: number
+  data?: unknown
+  headers?: Record<string, string>
+}
+
+export type MockResult = MockResponse | "network-error" | "timeout"
+
+export type MockHandler = (config: InternalAxiosRequestConfig) => MockResult | Promise<MockResult>
+
+/**
+ * Builds an axios adapter that answers requests from `handler` instead of the
+ * network. Statuses failing the request's `validateStatus` (by default anything
+ * but 2xx) are rejected the way axios' own adapters do, so apisauce classifies
+ * them into the usual problem codes.
+ *
+ * Usage: `api.apisauce.axiosInstance.defaults.adapter = mockAdapter(handler)`,
+ * or see `createMockApi`.
+ */
+export function mockAdapter(handler: MockHandler): AxiosAdapter {
+  return async (config) => {
+    const result = await handler(config)
+    if (result === "network-error") {
+      throw Object.assign(new Error("Network Error"), { config, isAxiosError: true })
+    }
+    if (result === "timeout") {
+      throw Object.assign(new Error(`timeout of ${config.timeout}ms exceeded`), {
+        config,
+        code: "ECONNABORTED",
+        isAxiosError: true,
+      })
+    }
+
+    // Bodies are passed through as-is; axios' transformResponse still parses them.
+    const { status, data, headers = {} } = result
+    const response = { status, statusText: `${status}`, data, headers, config }
+    const valid = config.validateStatus ?? ((s: number) => s >= 200 && s < 300)
+    if (valid(status)) return response
+    throw Object.assign(new Error(`Request failed with status code ${status}`), {
+      config,
+      response,
+      isAxiosError: true,
+    })
+  }
+}
+
+/**
+ * An `Api` whose requests are answered by `handler`. Retries are off unless
+ * `config` turns them on, so failures come back right away.
+ *
+ * @param handler Answers each request.
+ * @param config Overrides for the test `ApiConfig`.
+ */
+export function createMockApi(handler: MockHandler, config: Partial<ApiConfig> = {}): Api {
+  const api = new Api({ url: "https://example.test/", timeout: 1000, retry: false, ...config })
+  api.apisauce.axiosInstance.defaults.adapter = mockAdapter(handler)
+  return api
+}
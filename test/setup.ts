@@ -25,6 +25,35 @@ jest.doMock("react-native", () => {
   )
 })
 
+// Worker runtimes and synchronizables are native-only, so in tests they are
+// emulated on the JS thread: scheduled worklets run as microtasks.
+jest.mock("react-native-worklets", () => {
+  const actual = jest.requireActual("react-native-worklets")
+  return {
+    ...actual,
+    createWorkletRuntime: jest.fn((config?: { name?: string; initializer?: () => void }) => {
+      config?.initializer?.()
+      return { name: config?.name ?? "anonymous" }
+    }),
+    scheduleOnRuntime: jest.fn((_runtime, worklet: (...args: any[]) => void, ...args: any[]) =>
+      queueMicrotask(() => worklet(...args)),
+    ),
+    createSynchronizable: jest.fn((initialValue: unknown) => {
+      let value = initialValue
+      return {
+        __synchronizableRef: true,
+        getDirty: () => value,
+        getBlocking: () => value,
+        setBlocking: (next: unknown) => {
+          value = typeof next === "function" ? next(value) : next
+        },
+        lock: () => {},
+        unlock: () => {},
+      }
+    }),
+  }
+})
+
 jest.mock("i18next", () => ({
   currentLocale: "en",
   t: (key: string, params: Record<string, string>) => {